@@ -1,8 +1,8 @@
 
 import React from 'react';
 import { useAppContext } from '../context/AppContext';
-import { AiProvider } from '../types';
-import { AI_PROVIDERS } from '../constants';
+import { AiProvider, AiTask } from '../types';
+import { AI_PROVIDERS, AI_TASKS } from '../constants';
 import { GeminiIcon } from './icons/GeminiIcon';
 import { OpenAiIcon } from './icons/OpenAiIcon';
 import { ClaudeIcon } from './icons/ClaudeIcon';
@@ -12,8 +12,11 @@ import { Button } from './common/Button';
 import { Spinner } from './common/Spinner';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { XCircleIcon } from './icons/XCircleIcon';
+import { SparklesIcon } from './icons/SparklesIcon';
+import { getProviders } from '../services/providers/registry';
 
-const providerIcons: Record<AiProvider, React.ReactNode> = {
+// Providers without a dedicated icon fall back to a generic one.
+const providerIcons: Partial<Record<AiProvider, React.ReactNode>> = {
   [AiProvider.Gemini]: <GeminiIcon className="w-5 h-5" />,
   [AiProvider.OpenAI]: <OpenAiIcon className="w-5 h-5" />,
   [AiProvider.Anthropic]: <ClaudeIcon className="w-5 h-5" />,
@@ -21,8 +24,8 @@ const providerIcons: Record<AiProvider, React.ReactNode> = {
 };
 
 export default function ApiConfiguration(): React.ReactNode {
-  const { state, setProvider, setApiKey, setOpenRouterModel, validateAndSaveApiKey } = useAppContext();
-  const { selectedProvider, apiKeys, openRouterModel, apiValidationStatuses } = state;
+  const { state, setProvider, setApiKey, setProviderModel, setProviderBaseUrl, validateAndSaveApiKey } = useAppContext();
+  const { selectedProvider, apiKeys, providerModels, providerBaseUrls, apiValidationStatuses } = state;
 
   const providerDetails = AI_PROVIDERS[selectedProvider];
   const validationStatus = apiValidationStatuses[selectedProvider];
@@ -47,34 +50,52 @@ export default function ApiConfiguration(): React.ReactNode {
   return (
     <div className="bg-slate-50/50 dark:bg-slate-900/50 rounded-xl p-4 sm:p-6 border border-slate-200 dark:border-slate-700">
       <div className="flex flex-wrap items-center gap-2 mb-6">
-        {Object.values(AiProvider).map((provider) => (
+        {getProviders().map(({ id, name }) => (
           <button
-            key={provider}
-            onClick={() => setProvider(provider)}
+            key={id}
+            onClick={() => setProvider(id)}
             className={`flex items-center gap-2.5 px-3 py-2 sm:px-4 text-sm font-semibold rounded-full transition-colors duration-200 ${
-              selectedProvider === provider
+              selectedProvider === id
                 ? 'bg-blue-600 text-white shadow'
                 : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
             }`}
           >
-            {providerIcons[provider]}
-            {AI_PROVIDERS[provider].name}
+            {providerIcons[id] ?? <SparklesIcon className="w-5 h-5" />}
+            {name}
           </button>
         ))}
       </div>
 
       <div className="space-y-4">
-        {selectedProvider === AiProvider.Gemini ? (
-            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 flex items-center justify-between">
-                <p className="text-sm text-blue-800 dark:text-blue-200">
-                    <strong>Note:</strong> The Google Gemini API key is securely managed via environment variables (<code>process.env.API_KEY</code>). You do not need to enter it here.
-                </p>
-                <div className="w-5 h-5">{renderValidationStatus()}</div>
+        {providerDetails.requiresBaseUrl && (
+          <div>
+            <label htmlFor={`${selectedProvider}-base-url`} className="block text-sm font-medium leading-6 text-slate-900 dark:text-slate-300">
+              Base URL (OpenAI-compatible, e.g., http://localhost:11434/v1)
+            </label>
+            <div className="mt-2">
+              <Input
+                id={`${selectedProvider}-base-url`}
+                type="url"
+                value={providerBaseUrls[selectedProvider]}
+                onChange={(e) => setProviderBaseUrl(selectedProvider, e.target.value)}
+                placeholder="http://localhost:1234/v1"
+              />
             </div>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Works with Ollama, LM Studio and llama.cpp server. The server must allow requests from this page's origin (e.g., <code>OLLAMA_ORIGINS=*</code>).
+            </p>
+          </div>
+        )}
+
+        {providerDetails.apiKeyMode === 'none' ? (
+          <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+            <p className="flex-grow">No API key needed. Scores, ideas and tools are canned but stable per post, so flows can be demoed and tested offline.</p>
+            <div className="w-5 h-5">{renderValidationStatus()}</div>
+          </div>
         ) : (
         <div>
           <label htmlFor={`${selectedProvider}-api-key`} className="block text-sm font-medium leading-6 text-slate-900 dark:text-slate-300">
-            {providerDetails.name} API Key
+            {providerDetails.name} API Key{providerDetails.apiKeyMode === 'optional' && ' (optional)'}
           </label>
           <div className="mt-2 flex items-center gap-2">
             <Input
@@ -82,7 +103,7 @@ export default function ApiConfiguration(): React.ReactNode {
               type="password"
               value={apiKeys[selectedProvider]}
               onChange={(e) => setApiKey(selectedProvider, e.target.value)}
-              placeholder="Enter your API key"
+              placeholder={providerDetails.apiKeyMode === 'optional' ? 'Leave empty if your server has no auth' : 'Enter your API key'}
               className="flex-grow"
             />
              <div className="w-5 h-5">{renderValidationStatus()}</div>
@@ -90,29 +111,36 @@ export default function ApiConfiguration(): React.ReactNode {
         </div>
         )}
 
-        {providerDetails.requiresModelField && (
-          <div>
-            <label htmlFor="openrouter-model" className="block text-sm font-medium leading-6 text-slate-900 dark:text-slate-300">
-              Model Name (e.g., mistralai/mistral-7b-instruct)
-            </label>
-            <div className="mt-2">
-              <Input
-                id="openrouter-model"
-                type="text"
-                value={openRouterModel}
-                onChange={(e) => setOpenRouterModel(e.target.value)}
-                placeholder="vendor/model-name"
-              />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(Object.keys(AI_TASKS) as AiTask[]).map((task) => (
+            <div key={task}>
+              <label htmlFor={`${selectedProvider}-${task}-model`} className="block text-sm font-medium leading-6 text-slate-900 dark:text-slate-300">
+                {AI_TASKS[task].label}
+              </label>
+              <div className="mt-2">
+                <Input
+                  id={`${selectedProvider}-${task}-model`}
+                  type="text"
+                  list={`${selectedProvider}-model-suggestions`}
+                  value={providerModels[selectedProvider][task]}
+                  onChange={(e) => setProviderModel(selectedProvider, task, e.target.value)}
+                  placeholder={providerDetails.defaultModels[task]}
+                />
+              </div>
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{AI_TASKS[task].description}</p>
             </div>
-          </div>
-        )}
+          ))}
+          <datalist id={`${selectedProvider}-model-suggestions`}>
+            {providerDetails.suggestedModels.map((model) => <option key={model} value={model} />)}
+          </datalist>
+        </div>
 
         <div className="flex flex-col sm:flex-row gap-4 items-start">
             <Button onClick={handleSaveAndValidate} disabled={validationStatus === 'validating'} className="w-full sm:w-auto">
-                {validationStatus === 'validating' ? <><Spinner/>Validating...</> : 'Save & Validate Key'}
+                {validationStatus === 'validating' ? <><Spinner/>Validating...</> : providerDetails.apiKeyMode === 'none' ? 'Use Mock Provider' : 'Save & Validate Key'}
             </Button>
             <div className="text-xs text-slate-500 dark:text-slate-400 pt-1">
-                {validationStatus === 'invalid' && <p className="text-red-500">Validation failed. Please check your key and model name.</p>}
+                {validationStatus === 'invalid' && <p className="text-red-500">Validation failed. Please check your key, scoring model and endpoint.</p>}
                 <p>Your API keys are stored securely in your browser and are never sent to our servers.</p>
             </div>
         </div>
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { BatchItem, BatchItemStatus, EmbedMode } from '../types';
+import { Button } from './common/Button';
+import { Spinner } from './common/Spinner';
+import { DynamicIcon } from './icons/DynamicIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { InsertionPointPicker } from './InsertionPointPicker';
+import { buildPreviewDocument } from '../services/previewService';
+import { getEditableContent } from '../services/blockService';
+import { hasBlockingIssues } from '../services/snippetQualityService';
+import { SnippetReport } from './SnippetReport';
+import { runSmokeTest } from '../services/smokeTestService';
+import { SmokeTestPanel } from './SmokeTestPanel';
+import { FixAttemptsList } from './FixAttemptsList';
+import { EmbedModePicker } from './EmbedModePicker';
+import { DEFAULT_EMBED_MODE } from '../constants';
+
+interface BatchReviewModalProps {
+    onClose: () => void;
+}
+
+const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+    queued: 'Queued',
+    ideating: 'Finding ideas',
+    choosing: 'Pick an idea',
+    generating: 'Generating',
+    testing: 'Smoke testing',
+    review: 'Ready for review',
+    inserting: 'Inserting',
+    approved: 'Inserted',
+    rejected: 'Rejected',
+    failed: 'Failed',
+};
+
+const STATUS_BADGE_CLASSES: Partial<Record<BatchItemStatus, string>> = {
+    choosing: 'bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300',
+    review: 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300',
+    approved: 'bg-green-100 dark:bg-green-900/60 text-green-700 dark:text-green-300',
+    failed: 'bg-red-100 dark:bg-red-900/60 text-red-700 dark:text-red-300',
+};
+
+const isWorking = (status: BatchItemStatus) => ['queued', 'ideating', 'generating', 'testing', 'inserting'].includes(status);
+
+const ReviewPanel: React.FC<{ item: BatchItem }> = ({ item }) => {
+    const { state, approveBatchItem, rejectBatchItem } = useAppContext();
+    const [insertAt, setInsertAt] = useState(0);
+    const [allowErrors, setAllowErrors] = useState(false);
+    const [embedMode, setEmbedMode] = useState<EmbedMode>(DEFAULT_EMBED_MODE);
+    const post = state.posts.find(p => p.id === item.post.id) ?? item.post;
+    const previewDoc = useMemo(() => buildPreviewDocument(item.snippet, state.theme), [item.snippet, state.theme]);
+    const isApproveBlocked = hasBlockingIssues(item.issues) && !allowErrors;
+    const isInserting = item.status === 'inserting';
+    // Starts from the batch job's run; a re-run here only replaces what this panel shows.
+    const [smokeReport, setSmokeReport] = useState(item.smokeReport);
+    const [isSmokeTesting, setIsSmokeTesting] = useState(false);
+    const smokeTestControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => smokeTestControllerRef.current?.abort(), []);
+
+    const rerunSmokeTest = async () => {
+        smokeTestControllerRef.current?.abort();
+        const controller = new AbortController();
+        smokeTestControllerRef.current = controller;
+        setIsSmokeTesting(true);
+        try {
+            setSmokeReport(await runSmokeTest(item.snippet, controller.signal));
+        } catch {
+            // Cancelled because the panel closed or a newer run started.
+        } finally {
+            if (smokeTestControllerRef.current === controller) {
+                smokeTestControllerRef.current = null;
+                setIsSmokeTesting(false);
+            }
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 flex-grow min-h-0">
+            <div className="flex flex-col min-h-[360px]">
+                <iframe
+                    srcDoc={previewDoc}
+                    title={`${item.idea?.title ?? 'Tool'} preview`}
+                    className="flex-grow w-full border border-slate-200 dark:border-slate-700 rounded-md bg-transparent"
+                    sandbox="allow-scripts allow-forms allow-modals"
+                />
+            </div>
+            <div className="space-y-4 overflow-y-auto pr-1">
+                <SnippetReport issues={item.issues} allowErrors={allowErrors} onAllowErrorsChange={setAllowErrors} disabled={isInserting} />
+                <div className="border border-slate-200 dark:border-slate-700 rounded-md max-h-72 overflow-y-auto">
+                    <SmokeTestPanel report={smokeReport} isRunning={isSmokeTesting} onRun={rerunSmokeTest} disabled={isInserting} />
+                </div>
+                {item.fixAttempts.length > 0 && (
+                    <div>
+                        <h3 className="mb-2 text-sm font-semibold text-slate-700 dark:text-slate-200">Auto-fix</h3>
+                        <FixAttemptsList attempts={item.fixAttempts} />
+                    </div>
+                )}
+                <InsertionPointPicker
+                    content={getEditableContent(post)}
+                    topic={item.idea ? `${item.idea.title} ${item.idea.description}` : ''}
+                    value={insertAt}
+                    onChange={setInsertAt}
+                    disabled={isInserting}
+                />
+                <EmbedModePicker value={embedMode} onChange={setEmbedMode} disabled={isInserting} />
+                {item.error && (
+                    <div className="bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-md text-sm" role="alert">
+                        {item.error}
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <Button onClick={() => approveBatchItem(item.post.id, insertAt, embedMode)} disabled={isInserting || isApproveBlocked} className="flex-grow">
+                        {isInserting ? <><Spinner /> Inserting...</> : 'Approve & Insert'}
+                    </Button>
+                    <Button onClick={() => rejectBatchItem(item.post.id)} variant="secondary" disabled={isInserting}>Reject</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * The review queue of a batch job: pick ideas for posts waiting on one, then preview, place and approve
+ * each finished tool. Nothing reaches WordPress until it is approved here.
+ */
+export const BatchReviewModal: React.FC<BatchReviewModalProps> = ({ onClose }) => {
+    const { state, pickBatchIdea, retryBatchItem } = useAppContext();
+    const items = state.batchJob?.items ?? [];
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+
+    // Start on the first post that needs attention.
+    useEffect(() => {
+        if (selectedId !== null && items.some(i => i.post.id === selectedId)) return;
+        const next = items.find(i => i.status === 'review' || i.status === 'choosing') ?? items[0];
+        setSelectedId(next ? next.post.id : null);
+    }, [items, selectedId]);
+
+    const selected = items.find(i => i.post.id === selectedId);
+
+    const renderDetail = (item: BatchItem) => {
+        switch (item.status) {
+            case 'choosing':
+                return (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {item.ideas.map(idea => (
+                            <button
+                                key={idea.title}
+                                type="button"
+                                onClick={() => pickBatchIdea(item.post.id, idea)}
+                                className="text-left p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-blue-500 transition-colors"
+                            >
+                                <div className="flex items-center gap-2">
+                                    <DynamicIcon name={idea.icon} className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                                    <h3 className="font-bold text-slate-800 dark:text-slate-100">{idea.title}</h3>
+                                </div>
+                                <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">{idea.description}</p>
+                            </button>
+                        ))}
+                    </div>
+                );
+            case 'review':
+            case 'inserting':
+                return <ReviewPanel key={item.post.id} item={item} />;
+            case 'approved':
+                return <p className="text-sm text-green-600 dark:text-green-400">The tool was inserted into this post.</p>;
+            case 'failed':
+            case 'rejected':
+                return (
+                    <div className="space-y-3">
+                        {item.status === 'failed' && <p className="text-sm text-red-600 dark:text-red-400">{item.error}</p>}
+                        <Button onClick={() => retryBatchItem(item.post.id)} variant="secondary">
+                            {item.idea ? `Regenerate "${item.idea.title}"` : 'Try Again'}
+                        </Button>
+                    </div>
+                );
+            default:
+                return (
+                    <div className="flex items-center text-slate-500 dark:text-slate-400"><Spinner /> <span className="ml-2">{BATCH_STATUS_LABELS[item.status]}...</span></div>
+                );
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-40 flex items-center justify-center p-4 animate-fade-in" aria-labelledby="batch-review-modal-title" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-7xl p-6 sm:p-8 border border-slate-200 dark:border-slate-700 h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <header className="flex-shrink-0 flex justify-between items-start mb-4">
+                    <div>
+                        <h2 id="batch-review-modal-title" className="text-lg sm:text-xl font-bold text-slate-900 dark:text-slate-100">Review Queue</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Tools are only inserted once you approve them.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+                        <XCircleIcon className="w-8 h-8"/>
+                    </button>
+                </header>
+
+                {items.length === 0 ? (
+                    <p className="text-center py-16 text-slate-500 dark:text-slate-400">No batch job is running.</p>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 flex-grow min-h-0">
+                        <ol className="lg:col-span-1 space-y-2 overflow-y-auto pr-1">
+                            {items.map(item => (
+                                <li key={item.post.id}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelectedId(item.post.id)}
+                                        className={`w-full text-left p-3 rounded-lg border transition-colors ${item.post.id === selectedId ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                                    >
+                                        <p className="font-semibold text-sm text-slate-800 dark:text-slate-100 line-clamp-2" dangerouslySetInnerHTML={{ __html: item.post.title.rendered }} />
+                                        <span className={`inline-block mt-1 text-xs font-semibold px-2 py-0.5 rounded-full ${isWorking(item.status) ? 'animate-pulse' : ''} ${STATUS_BADGE_CLASSES[item.status] ?? 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                                            {BATCH_STATUS_LABELS[item.status]}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+
+                        <div className="lg:col-span-3 flex flex-col min-h-0">
+                            {selected && (
+                                <>
+                                    <div className="mb-4">
+                                        <h3 className="font-bold text-slate-800 dark:text-slate-100" dangerouslySetInnerHTML={{ __html: selected.post.title.rendered }} />
+                                        {selected.idea && <p className="text-sm text-slate-500 dark:text-slate-400">Tool: {selected.idea.title}</p>}
+                                    </div>
+                                    {renderDetail(selected)}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BatchReviewModal;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Card } from './common/Card';
+import { EmbedMode } from '../types';
+import { EMBED_MODES } from '../constants';
+
+interface EmbedModePickerProps {
+  value: EmbedMode;
+  onChange: (mode: EmbedMode) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chooses how the connector embeds the tool, i.e. how well it is shielded from the theme.
+ */
+export const EmbedModePicker: React.FC<EmbedModePickerProps> = ({ value, onChange, disabled }) => (
+  <Card className="p-4">
+    <label htmlFor="embed-mode" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Embedding</label>
+    <select
+      id="embed-mode"
+      value={value}
+      onChange={(e) => onChange(e.target.value as EmbedMode)}
+      disabled={disabled}
+      className="mt-2 w-full rounded-md border-0 py-1.5 pl-3 pr-8 bg-white/80 dark:bg-slate-900/70 text-sm text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-blue-600"
+    >
+      {(Object.keys(EMBED_MODES) as EmbedMode[]).map(mode => (
+        <option key={mode} value={mode}>{EMBED_MODES[mode].label}</option>
+      ))}
+    </select>
+    <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">{EMBED_MODES[value].description}</p>
+  </Card>
+);
@@ -0,0 +1,25 @@
+import React from 'react';
+import { AutoFixAttempt } from '../types';
+
+/**
+ * The passes of an auto-fix run, each with the problems its checks found.
+ */
+export const FixAttemptsList: React.FC<{ attempts: AutoFixAttempt[] }> = ({ attempts }) => (
+  <ol className="space-y-2 text-xs">
+    {attempts.map(attempt => (
+      <li key={attempt.attempt} className="p-2 rounded-md bg-slate-100 dark:bg-slate-900/50">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-semibold text-slate-700 dark:text-slate-200">{attempt.attempt === 0 ? 'Generation' : `Fix ${attempt.attempt}`}</span>
+          <span className={attempt.status === 'passed' ? 'text-green-600 dark:text-green-400' : attempt.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400 animate-pulse'}>
+            {attempt.status === 'generating' ? 'Writing...' : attempt.status === 'checking' ? 'Checking...' : attempt.status === 'passed' ? 'Passed' : `${attempt.problems.length} problem${attempt.problems.length === 1 ? '' : 's'}`}
+          </span>
+        </div>
+        {attempt.problems.length > 0 && (
+          <ul className="mt-1 list-disc list-inside space-y-0.5 text-slate-600 dark:text-slate-400 break-words">
+            {attempt.problems.map((problem, index) => <li key={index}>{problem}</li>)}
+          </ul>
+        )}
+      </li>
+    ))}
+  </ol>
+);
@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from './common/Card';
+import { buildOutline, resolvePreset, InsertionPreset, INSERTION_PRESETS } from '../services/insertionService';
+
+interface InsertionPointPickerProps {
+  content: string; // The post content the tool will be inserted into
+  topic: string; // Tool title and description, used by the best-match preset
+  value: number;
+  onChange: (offset: number) => void;
+  disabled?: boolean;
+}
+
+const tagLabel = (tag: string) => tag.toUpperCase();
+
+/**
+ * Lets editors choose where the tool goes: pick a preset rule, or click a gap in the post outline.
+ */
+export const InsertionPointPicker: React.FC<InsertionPointPickerProps> = ({ content, topic, value, onChange, disabled }) => {
+  const outline = useMemo(() => buildOutline(content), [content]);
+  const [preset, setPreset] = useState<InsertionPreset | 'custom'>('after_heading');
+  const [headingNumber, setHeadingNumber] = useState(1);
+  const sectionCount = useMemo(() => outline.filter(item => item.kind === 'heading' && item.level === 2).length, [outline]);
+
+  // Insertion points sit between top-level elements: before the first one, then after each.
+  const gaps = useMemo(() => [0, ...outline.map(item => item.end)], [outline]);
+  const snapToGap = (offset: number) => gaps.reduce((best, gap) => (gap <= offset ? gap : best), 0);
+
+  useEffect(() => {
+    if (preset === 'custom') return;
+    onChange(snapToGap(resolvePreset(content, outline, preset, { headingNumber, topic })));
+  }, [preset, headingNumber, content, topic]);
+
+  const selectedGap = snapToGap(value);
+
+  const renderGap = (offset: number, key: string) => {
+    const isSelected = offset === selectedGap;
+    return (
+      <li key={key}>
+        <button
+          type="button"
+          onClick={() => { setPreset('custom'); onChange(offset); }}
+          disabled={disabled}
+          className={`w-full text-left text-xs px-2 rounded transition-colors ${isSelected ? 'py-1.5 bg-blue-600 text-white font-semibold' : 'py-0.5 text-transparent hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 dark:hover:text-blue-400'}`}
+        >
+          {isSelected ? '▶ Tool goes here' : '+ Insert here'}
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <Card className="p-4">
+      <label htmlFor="insertion-preset" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Placement</label>
+      <div className="mt-2 flex items-center gap-2">
+        <select
+          id="insertion-preset"
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as InsertionPreset | 'custom')}
+          disabled={disabled}
+          className="flex-grow min-w-0 rounded-md border-0 py-1.5 pl-3 pr-8 bg-white/80 dark:bg-slate-900/70 text-sm text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-blue-600"
+        >
+          {(Object.keys(INSERTION_PRESETS) as InsertionPreset[]).map(key => (
+            <option key={key} value={key}>{INSERTION_PRESETS[key]}</option>
+          ))}
+          <option value="custom">Custom (picked in outline)</option>
+        </select>
+        {preset === 'after_heading' && (
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, sectionCount)}
+            value={headingNumber}
+            onChange={(e) => setHeadingNumber(Math.max(1, Number(e.target.value) || 1))}
+            disabled={disabled}
+            className="w-16 rounded-md border-0 py-1.5 px-2 bg-white/80 dark:bg-slate-900/70 text-sm text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700"
+            aria-label="Heading number"
+          />
+        )}
+      </div>
+      {preset === 'after_heading' && headingNumber > sectionCount && (
+        <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+          The post has {sectionCount} H2 {sectionCount === 1 ? 'heading' : 'headings'}; the tool will go at the top.
+        </p>
+      )}
+
+      <ol className="mt-3 max-h-56 overflow-y-auto space-y-0.5 text-xs">
+        {renderGap(0, 'gap-start')}
+        {outline.map((item, index) => (
+          <React.Fragment key={item.start}>
+            <li
+              className={`flex items-baseline gap-2 px-2 py-0.5 text-slate-600 dark:text-slate-300 ${item.kind === 'heading' ? 'font-semibold text-slate-800 dark:text-slate-100' : ''}`}
+              style={{ paddingLeft: item.level ? `${(item.level - 1) * 0.5}rem` : undefined }}
+            >
+              <span className="flex-shrink-0 font-mono text-[10px] text-slate-400">{tagLabel(item.tag)}</span>
+              <span className="truncate">{item.text || '(empty)'}</span>
+            </li>
+            {renderGap(item.end, `gap-${index}`)}
+          </React.Fragment>
+        ))}
+      </ol>
+    </Card>
+  );
+};
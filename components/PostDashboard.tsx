@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { WordPressPost } from '../types';
+import { BatchItemStatus, BatchJob, PostOrderBy, PostStatusFilter, SiteScanState, TaxonomyTerm, WordPressPost } from '../types';
 import { Card } from './common/Card';
 import { Button } from './common/Button';
 import { useAppContext } from '../context/AppContext';
@@ -7,6 +7,7 @@ import { Input } from './common/Input';
 import { SearchIcon } from './icons/SearchIcon';
 import { CheckIcon } from './icons/CheckIcon';
 import { LightbulbIcon } from './icons/LightbulbIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
 import { WorldIcon } from './icons/FormIcons';
 import { Spinner } from './common/Spinner';
 import { ConfirmationModal } from './common/ConfirmationModal';
@@ -14,6 +15,13 @@ import { SparklesIcon } from './icons/SparklesIcon';
 import { Skeleton } from './common/Skeleton';
 import { ArrowRightIcon } from './icons/ArrowRightIcon';
 import { useDebounce } from '../hooks/useDebounce';
+import { ToolHistoryModal } from './ToolHistoryModal';
+import { RefreshReviewModal } from './RefreshReviewModal';
+import { ScoringProfileModal } from './ScoringProfileModal';
+import { BatchReviewModal } from './BatchReviewModal';
+import { getActiveProfile } from '../services/scoringProfileService';
+import { estimateRemainingMs } from '../services/siteScanService';
+import { DEFAULT_AUTO_FIX_ATTEMPTS } from '../constants';
 
 interface PostDashboardProps {
   onBeginToolCreation: (post: WordPressPost) => void;
@@ -26,7 +34,30 @@ const getScoreColor = (score?: number) => {
     return 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400';
 };
 
-const Tooltip: React.FC<{ content: string, children: React.ReactNode }> = ({ content, children }) => (
+const POST_STATUS_OPTIONS: { value: PostStatusFilter; label: string }[] = [
+    { value: 'publish', label: 'Published' },
+    { value: 'draft', label: 'Drafts' },
+    { value: 'pending', label: 'Pending Review' },
+    { value: 'private', label: 'Private' },
+    { value: 'any', label: 'Any Status' },
+];
+
+const SORT_OPTIONS: { value: PostOrderBy; label: string }[] = [
+    { value: 'date', label: 'Sort by Date' },
+    { value: 'modified', label: 'Sort by Last Modified' },
+    { value: 'title', label: 'Sort by Title' },
+    { value: 'relevance', label: 'Sort by Relevance' },
+];
+
+// Chips beyond this are behind a "more" toggle; selected terms always stay visible.
+const VISIBLE_CHIP_COUNT = 12;
+
+const selectClasses = 'rounded-md border-0 py-2 pl-3 pr-8 bg-white/80 dark:bg-slate-900/70 text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 sm:text-sm sm:leading-6 transition-all';
+
+// Sub-cent amounts are common for scoring, so show more precision below $1.
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const Tooltip: React.FC<{ content: React.ReactNode, children: React.ReactNode }> = ({ content, children }) => (
     <div className="relative group flex items-center">
         {children}
         <div className="absolute bottom-full mb-2 w-max max-w-xs bg-slate-800 text-white text-xs rounded-md py-1.5 px-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-20 shadow-lg dark:bg-slate-900 dark:border dark:border-slate-600">
@@ -35,15 +66,149 @@ const Tooltip: React.FC<{ content: string, children: React.ReactNode }> = ({ con
     </div>
 );
 
+const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) return 'less than a minute';
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const SiteScanPanel: React.FC<{
+  scan: SiteScanState,
+  onPause: () => void,
+  onResume: () => void,
+  onDiscard: () => void,
+}> = ({ scan, onPause, onResume, onDiscard }) => {
+  const done = scan.completedPages.length;
+  const percent = scan.totalPages > 0 ? Math.round((done / scan.totalPages) * 100) : 0;
+  const remainingMs = scan.isRunning ? estimateRemainingMs(scan, Date.now()) : null;
+
+  return (
+    <div className="mb-6 px-4 py-3 rounded-md border border-blue-200 dark:border-blue-800/50 bg-blue-50 dark:bg-blue-900/30 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="text-sm text-slate-700 dark:text-slate-200">
+          <p className="font-semibold flex items-center gap-2">
+            {scan.isRunning && <Spinner />}
+            {scan.isRunning ? 'Scanning entire site' : 'Site scan paused'}
+            {scan.totalPages > 0 && <span className="font-normal text-slate-500 dark:text-slate-400">· page {done} of {scan.totalPages}</span>}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {scan.totalPosts > 0 ? `${scan.totalPosts.toLocaleString()} items in total. ` : ''}
+            {scan.isRunning
+              ? (remainingMs !== null ? `About ${formatDuration(remainingMs)} left.` : 'Estimating time left...')
+              : 'Already scored posts are skipped when you resume.'}
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          {scan.isRunning ? (
+            <Button onClick={onPause} variant="secondary" className="!text-xs !py-1 !px-3">Pause</Button>
+          ) : (
+            <>
+              <Button onClick={onResume} className="!text-xs !py-1 !px-3">Resume</Button>
+              <Button onClick={onDiscard} variant="secondary" className="!text-xs !py-1 !px-3">Discard</Button>
+            </>
+          )}
+        </div>
+      </div>
+      <div className="mt-3 h-1.5 rounded-full bg-blue-100 dark:bg-slate-700 overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const BatchPanel: React.FC<{
+  job: BatchJob,
+  onReview: () => void,
+  onStop: () => void,
+  onClear: () => void,
+}> = ({ job, onReview, onStop, onClear }) => {
+  const count = (...statuses: BatchItemStatus[]) => job.items.filter(item => statuses.includes(item.status)).length;
+  const working = count('queued', 'ideating', 'generating', 'testing', 'inserting');
+  const needsAttention = count('choosing', 'review');
+  const finished = count('approved', 'rejected', 'failed');
+  const percent = Math.round((finished / job.items.length) * 100);
+
+  return (
+    <div className="mb-6 px-4 py-3 rounded-md border border-purple-200 dark:border-purple-800/50 bg-purple-50 dark:bg-purple-900/30 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="text-sm text-slate-700 dark:text-slate-200">
+          <p className="font-semibold flex items-center gap-2">
+            {working > 0 && <Spinner />}
+            {working > 0 ? `Generating tools for ${job.items.length} posts` : 'Batch generation finished'}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {needsAttention} waiting for you · {count('approved')} inserted · {count('failed')} failed
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button onClick={onReview} className="!text-xs !py-1 !px-3">Review Queue{needsAttention > 0 ? ` (${needsAttention})` : ''}</Button>
+          {working > 0 ? (
+            <Button onClick={onStop} variant="secondary" className="!text-xs !py-1 !px-3">Stop</Button>
+          ) : (
+            <Button onClick={onClear} variant="secondary" className="!text-xs !py-1 !px-3">Dismiss</Button>
+          )}
+        </div>
+      </div>
+      <div className="mt-3 h-1.5 rounded-full bg-purple-100 dark:bg-slate-700 overflow-hidden">
+        <div className="h-full bg-purple-600 transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const FilterChips: React.FC<{
+  label: string,
+  terms: TaxonomyTerm[],
+  selected: number[],
+  onToggle: (termId: number) => void,
+  disabled?: boolean,
+}> = ({ label, terms, selected, onToggle, disabled }) => {
+  const [showAll, setShowAll] = useState(false);
+  const visibleTerms = showAll ? terms : terms.filter((term, index) => index < VISIBLE_CHIP_COUNT || selected.includes(term.id));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 w-20">{label}</span>
+      {visibleTerms.map(term => {
+        const isSelected = selected.includes(term.id);
+        return (
+          <button
+            key={term.id}
+            type="button"
+            onClick={() => onToggle(term.id)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className={`text-xs px-3 py-1 rounded-full border transition-colors disabled:opacity-50 ${isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400'}`}
+          >
+            <span dangerouslySetInnerHTML={{ __html: term.name }} /> <span className="opacity-60">{term.count}</span>
+          </button>
+        );
+      })}
+      {terms.length > VISIBLE_CHIP_COUNT && (
+        <button type="button" onClick={() => setShowAll(!showAll)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          {showAll ? 'Show less' : `+${terms.length - VISIBLE_CHIP_COUNT} more`}
+        </button>
+      )}
+    </div>
+  );
+};
+
 const PostCard: React.FC<{ 
   post: WordPressPost, 
   onDelete: (post: WordPressPost) => void,
   onCreate: (post: WordPressPost) => void,
   onRefresh: (post: WordPressPost) => void,
+  onCancelRefresh: () => void,
+  onHistory: (post: WordPressPost) => void,
+  onToggleSelect: (postId: number) => void,
+  isSelected: boolean, // Ticked for batch generation
   isDeleting: boolean,
   isRefreshing: boolean,
   isScoring: boolean,
-}> = React.memo(({ post, onDelete, onCreate, onRefresh, isDeleting, isRefreshing, isScoring }) => {
+  scoringError?: string,
+  cost?: number, // Estimated AI spend on this post this session
+}> = React.memo(({ post, onDelete, onCreate, onRefresh, onCancelRefresh, onHistory, onToggleSelect, isSelected, isDeleting, isRefreshing, isScoring, scoringError, cost }) => {
   const isBusy = isDeleting || isRefreshing;
 
   const handleCreateClick = (e: React.MouseEvent) => {
@@ -61,6 +226,11 @@ const PostCard: React.FC<{
     onRefresh(post);
   };
 
+  const handleHistoryClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onHistory(post);
+  };
+
   const needsRefresh = useMemo(() => {
     if (!post.toolCreationDate) return false;
     const sixMonthsAgo = Date.now() - 6 * 30 * 24 * 60 * 60 * 1000;
@@ -70,12 +240,25 @@ const PostCard: React.FC<{
   return (
     <Card className={`flex flex-col relative overflow-hidden transition-all duration-300 group ${isBusy ? 'opacity-60' : 'hover:!border-blue-500'}`}>
       {isBusy && (
-        <div className="absolute inset-0 bg-white/50 dark:bg-slate-900/50 flex items-center justify-center z-10 rounded-xl">
-          <Spinner/>
-          <span className="ml-2">{isRefreshing ? 'Refreshing...' : 'Deleting...'}</span>
+        <div className="absolute inset-0 bg-white/50 dark:bg-slate-900/50 flex flex-col items-center justify-center gap-3 z-10 rounded-xl">
+          <div className="flex items-center">
+            <Spinner/>
+            <span className="ml-2">{isRefreshing ? 'Refreshing...' : 'Deleting...'}</span>
+          </div>
+          {isRefreshing && (
+            <Button onClick={(e) => { e.stopPropagation(); onCancelRefresh(); }} variant="secondary" className="!text-xs !py-1 !px-3">
+              Stop
+            </Button>
+          )}
         </div>
       )}
       <div className="aspect-video bg-slate-100 dark:bg-slate-700 rounded-md mb-4 overflow-hidden relative">
+        {!post.hasOptimizerSnippet && (
+          <label className="absolute top-2 left-2 z-[1] flex items-center gap-1.5 text-xs font-semibold px-2 py-1 rounded-full bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm text-slate-700 dark:text-slate-200 cursor-pointer">
+            <input type="checkbox" checked={isSelected} onChange={() => onToggleSelect(post.id)} className="rounded" />
+            Batch
+          </label>
+        )}
         {post.featuredImageUrl ? (
           <img src={post.featuredImageUrl} alt="" loading="lazy" className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" />
         ) : (
@@ -87,8 +270,22 @@ const PostCard: React.FC<{
             <div className={`absolute top-2 right-2 text-xs font-bold px-2.5 py-1 rounded-full flex items-center justify-center bg-slate-200/80 dark:bg-slate-700/80 backdrop-blur-sm`}>
                 <Spinner />
             </div>
+        ) : scoringError && post.opportunityScore === undefined ? (
+            <Tooltip content={`Scoring failed: ${scoringError}`}>
+                <div className="absolute top-2 right-2 text-xs font-bold px-2.5 py-1 rounded-full flex items-center gap-1.5 bg-red-100 dark:bg-red-900/60 text-red-700 dark:text-red-300">
+                    <XCircleIcon className="w-3 h-3"/>
+                    <span>Failed</span>
+                </div>
+            </Tooltip>
         ) : post.opportunityScore !== undefined && (
-            <Tooltip content={post.opportunityRationale || 'AI-generated score'}>
+            <Tooltip content={
+              <>
+                <p>{post.opportunityRationale || 'AI-generated score'}</p>
+                {post.opportunitySignals && post.opportunitySignals.length > 0 && (
+                  <p className="mt-1 text-slate-300">Signals: {post.opportunitySignals.join(' · ')}</p>
+                )}
+              </>
+            }>
                  <div className={`absolute top-2 right-2 text-xs font-bold px-2.5 py-1 rounded-full flex items-center gap-1.5 ${getScoreColor(post.opportunityScore)}`}>
                     <LightbulbIcon className="w-3 h-3"/>
                     <span>{post.opportunityScore}</span>
@@ -97,6 +294,11 @@ const PostCard: React.FC<{
         )}
       </div>
       <div className="flex-grow">
+        {post.status !== 'publish' && (
+          <span className="inline-block mb-1 text-xs font-semibold uppercase tracking-wide px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300">
+            {post.status}
+          </span>
+        )}
         <h3 className="font-bold text-slate-800 dark:text-slate-100 line-clamp-2" dangerouslySetInnerHTML={{ __html: post.title.rendered }} />
       </div>
       <div className="mt-4 flex items-center justify-between gap-2">
@@ -104,6 +306,11 @@ const PostCard: React.FC<{
           <WorldIcon className="w-3.5 h-3.5 flex-shrink-0" />
           <span className="truncate">{post.link.replace(/^https?:\/\//, '')}</span>
         </a>
+        {cost !== undefined && (
+          <span className="flex-shrink-0 text-xs font-mono text-slate-500 dark:text-slate-400" title="Estimated AI cost for this post this session">
+            {formatCost(cost)}
+          </span>
+        )}
       </div>
       <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
         {post.hasOptimizerSnippet ? (
@@ -113,15 +320,22 @@ const PostCard: React.FC<{
                   <CheckIcon className="w-4 h-4" />
                   <span>Tool Injected</span>
               </div>
-              <Button
-                onClick={handleDeleteClick}
-                variant="secondary"
-                size="normal"
-                className="!text-xs !py-1 !px-2 bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/60 focus:ring-red-500"
-                disabled={isBusy}
-              >
-                Delete
-              </Button>
+              <div className="flex items-center gap-2">
+                {post.toolId && (
+                  <Button onClick={handleHistoryClick} variant="secondary" className="!text-xs !py-1 !px-2" disabled={isBusy}>
+                    History
+                  </Button>
+                )}
+                <Button
+                  onClick={handleDeleteClick}
+                  variant="secondary"
+                  size="normal"
+                  className="!text-xs !py-1 !px-2 bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/60 focus:ring-red-500"
+                  disabled={isBusy}
+                >
+                  Delete
+                </Button>
+              </div>
             </div>
              {needsRefresh && (
                 <Button
@@ -193,25 +407,72 @@ const PostGridSkeleton: React.FC = () => (
 
 
 export default function PostDashboard({ onBeginToolCreation }: PostDashboardProps): React.ReactNode {
-  const { state, setPostSearchQuery, setPostSortOrder, deleteSnippet, runOpportunityAnalysis, fetchMorePosts, refreshTool } = useAppContext();
-  const { status, posts, filteredPosts, postSearchQuery, deletingPostId, refreshingPostId, error, isScoring, scoringPostIds, postSortOrder, hasMorePosts, isFetchingMorePosts } = state;
+  const { state, setPostSortOrder, setPostQuery, deleteSnippet, runOpportunityAnalysis, cancelOpportunityAnalysis, scanEntireSite, pauseSiteScan, discardSiteScan, startBatchGeneration, cancelBatchGeneration, clearBatchJob, fetchMorePosts, refreshTool, cancelRefreshTool } = useAppContext();
+  const { status, posts, filteredPosts, postTypes, postQuery, categories, tags, deletingPostId, refreshingPostId, error, isScoring, scoringPostIds, postSortOrder, hasMorePosts, isFetchingMorePosts, sessionUsage, postCosts, scoringErrors, siteScan, scoringProfiles, batchJob } = state;
+  const isSiteScanning = !!siteScan?.isRunning;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [postToDelete, setPostToDelete] = useState<WordPressPost | null>(null);
+  const [historyPost, setHistoryPost] = useState<WordPressPost | null>(null);
+  const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
+  const [batchPostIds, setBatchPostIds] = useState<number[]>([]);
+  const [batchTopCount, setBatchTopCount] = useState(5);
+  const [autoPickIdea, setAutoPickIdea] = useState(true);
+  const [autoFixBatch, setAutoFixBatch] = useState(true);
 
-  // SOTA Performance: Debounce search input to prevent re-filtering on every keystroke.
-  const [localSearchQuery, setLocalSearchQuery] = useState(postSearchQuery);
+  // SOTA Performance: Debounce search input so WordPress is queried once the user stops typing.
+  const [localSearchQuery, setLocalSearchQuery] = useState(postQuery.search);
   const debouncedSearchQuery = useDebounce(localSearchQuery, 300);
 
   useEffect(() => {
-    setPostSearchQuery(debouncedSearchQuery);
-  }, [debouncedSearchQuery, setPostSearchQuery]);
+    if (debouncedSearchQuery === postQuery.search) return;
+    const orderby = !debouncedSearchQuery && postQuery.orderby === 'relevance' ? 'date' : postQuery.orderby;
+    setPostQuery({ ...postQuery, search: debouncedSearchQuery, orderby });
+  }, [debouncedSearchQuery]);
+
+  const currentType = postTypes.find(type => type.restBase === postQuery.restBase);
+  const typeName = (currentType?.name ?? 'Posts').toLowerCase();
+  const showCategories = !!currentType?.taxonomies.includes('category') && categories.length > 0;
+  const showTags = !!currentType?.taxonomies.includes('post_tag') && tags.length > 0;
+  const hasFilters = !!(postQuery.search || postQuery.categories.length || postQuery.tags.length || postQuery.after || postQuery.before);
+
+  const handlePostTypeChange = (restBase: string) => {
+    const nextType = postTypes.find(type => type.restBase === restBase);
+    setPostQuery({
+      ...postQuery,
+      restBase,
+      // Term filters only make sense for types that use the taxonomy.
+      categories: nextType?.taxonomies.includes('category') ? postQuery.categories : [],
+      tags: nextType?.taxonomies.includes('post_tag') ? postQuery.tags : [],
+    });
+  };
+
+  const toggleTerm = (key: 'categories' | 'tags', termId: number) => {
+    const current = postQuery[key];
+    setPostQuery({ ...postQuery, [key]: current.includes(termId) ? current.filter(id => id !== termId) : [...current, termId] });
+  };
+
+  const handleSortChange = (value: PostOrderBy | 'opportunity') => {
+    if (value === 'opportunity') {
+      setPostSortOrder('opportunity');
+      return;
+    }
+    setPostSortOrder('date');
+    if (value !== postQuery.orderby) setPostQuery({ ...postQuery, orderby: value });
+  };
+
+  const clearFilters = () => {
+    setLocalSearchQuery('');
+    const orderby = postQuery.orderby === 'relevance' ? 'date' : postQuery.orderby;
+    setPostQuery({ ...postQuery, search: '', categories: [], tags: [], after: '', before: '', orderby });
+  };
   
   // Auto-run analysis on load if any posts don't have scores
   useEffect(() => {
-    if (status === 'success' && posts.length > 0 && posts.some(p => p.opportunityScore === undefined)) {
+    if (status === 'success' && !isSiteScanning && posts.length > 0 && posts.some(p => p.opportunityScore === undefined)) {
         runOpportunityAnalysis();
     }
-  }, [status, posts.length]); // Depend on posts.length to trigger once when posts are loaded.
+  }, [status, posts.length, scoringProfiles]); // Depend on posts.length to trigger once when posts are loaded, and re-score after a rubric change.
   
   const topOpportunity = useMemo(() => {
     if (isScoring || posts.length === 0) return null;
@@ -221,6 +482,11 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
     return sorted[0];
   }, [posts, isScoring]);
 
+  const failedScoreCount = useMemo(
+    () => posts.filter(p => scoringErrors[p.id] && p.opportunityScore === undefined).length,
+    [posts, scoringErrors]
+  );
+
   const handleDeleteRequest = useCallback((post: WordPressPost) => {
     setPostToDelete(post);
     setIsModalOpen(true);
@@ -243,6 +509,22 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
     }
   }, [refreshTool]);
 
+  const handleToggleBatchPost = useCallback((postId: number) => {
+    setBatchPostIds(ids => ids.includes(postId) ? ids.filter(id => id !== postId) : [...ids, postId]);
+  }, []);
+
+  // The highest-scoring loaded posts that don't have a tool yet.
+  const topBatchPosts = useMemo(() => posts
+    .filter(p => !p.hasOptimizerSnippet && p.opportunityScore !== undefined)
+    .sort((a, b) => (b.opportunityScore ?? -1) - (a.opportunityScore ?? -1))
+    .slice(0, batchTopCount), [posts, batchTopCount]);
+
+  const startBatch = (batchPosts: WordPressPost[]) => {
+    setBatchPostIds([]);
+    setIsBatchModalOpen(true);
+    startBatchGeneration(batchPosts, autoPickIdea, autoFixBatch ? DEFAULT_AUTO_FIX_ATTEMPTS : 0);
+  };
+
   const renderContent = () => {
     if (status === 'loading' && filteredPosts.length === 0) {
         return <PostGridSkeleton />;
@@ -255,11 +537,15 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
             </div>
         );
     }
-     if (filteredPosts.length === 0 && postSearchQuery) {
-        return <p className="text-center py-16 text-slate-500 dark:text-slate-400">No posts found for "{postSearchQuery}"</p>;
+     if (filteredPosts.length === 0 && postQuery.search) {
+        return <p className="text-center py-16 text-slate-500 dark:text-slate-400">No {typeName} found for "{postQuery.search}"</p>;
+    }
+    if (filteredPosts.length === 0 && hasFilters) {
+        return <p className="text-center py-16 text-slate-500 dark:text-slate-400">No {typeName} match these filters.</p>;
     }
     if (filteredPosts.length === 0) {
-        return <p className="text-center py-16 text-slate-500 dark:text-slate-400">No published posts found on your WordPress site.</p>;
+        const statusLabel = postQuery.status === 'any' ? '' : `${POST_STATUS_OPTIONS.find(option => option.value === postQuery.status)?.label.toLowerCase()} `;
+        return <p className="text-center py-16 text-slate-500 dark:text-slate-400">No {statusLabel}{typeName} found on your WordPress site.</p>;
     }
 
     return (
@@ -272,13 +558,19 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
                     onCreate={handleCreate}
                     onDelete={handleDeleteRequest}
                     onRefresh={handleRefresh}
+                    onCancelRefresh={cancelRefreshTool}
+                    onHistory={setHistoryPost}
+                    onToggleSelect={handleToggleBatchPost}
+                    isSelected={batchPostIds.includes(post.id)}
                     isDeleting={deletingPostId === post.id}
                     isRefreshing={refreshingPostId === post.id}
                     isScoring={scoringPostIds.includes(post.id)}
+                    scoringError={scoringErrors[post.id]}
+                    cost={postCosts[post.id]}
                 />
             ))}
         </div>
-        {hasMorePosts && (
+        {hasMorePosts && !isSiteScanning && (
           <div className="mt-8 text-center">
             <Button onClick={fetchMorePosts} disabled={isFetchingMorePosts} variant="secondary">
               {isFetchingMorePosts ? <><Spinner/>Loading...</> : 'Load More Posts'}
@@ -298,9 +590,34 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
                     <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-100">Opportunity Dashboard</h1>
                     <p className="text-slate-600 dark:text-slate-400">Your AI co-pilot for finding and creating high-impact content tools.</p>
                 </div>
-                <Button onClick={runOpportunityAnalysis} variant="secondary" disabled={isScoring || status === 'loading'}>
-                    {isScoring ? <><Spinner/>Scanning Opportunities...</> : <>Analyze Post Opportunities</>}
-                </Button>
+                <div className="flex items-center gap-2">
+                    {sessionUsage.calls > 0 && (
+                        <Tooltip content={`${sessionUsage.calls} AI calls · ${sessionUsage.inputTokens.toLocaleString()} input / ${sessionUsage.outputTokens.toLocaleString()} output tokens${sessionUsage.hasUnpricedCalls ? ' · some models have no known price and are not included' : ''}`}>
+                            <div className="text-right text-xs text-slate-500 dark:text-slate-400 mr-2">
+                                <p className="uppercase tracking-wide">Session cost</p>
+                                <p className="font-mono text-sm font-semibold text-slate-700 dark:text-slate-200">
+                                    {sessionUsage.hasUnpricedCalls ? '≥ ' : ''}{formatCost(sessionUsage.cost)}
+                                </p>
+                            </div>
+                        </Tooltip>
+                    )}
+                    <Tooltip content="Edit the rubric posts are scored against">
+                        <Button onClick={() => setIsProfileModalOpen(true)} variant="secondary">
+                            Profile: {getActiveProfile(scoringProfiles).name}
+                        </Button>
+                    </Tooltip>
+                    <Button onClick={runOpportunityAnalysis} variant="secondary" disabled={isScoring || isSiteScanning || status === 'loading'}>
+                        {isScoring ? <><Spinner/>Scanning Opportunities...</> : <>Analyze Post Opportunities</>}
+                    </Button>
+                    {isScoring && (
+                        <Button onClick={cancelOpportunityAnalysis} variant="secondary">Stop</Button>
+                    )}
+                    {!siteScan && !isScoring && (
+                        <Tooltip content="Fetch and score every item of this list, not just the loaded ones">
+                            <Button onClick={scanEntireSite} variant="secondary" disabled={status === 'loading'}>Scan Entire Site</Button>
+                        </Tooltip>
+                    )}
+                </div>
             </div>
 
             {isScoring && scoringPostIds.length > 0 && (
@@ -312,26 +629,118 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
                 </div>
             )}
             
+            {siteScan && <SiteScanPanel scan={siteScan} onPause={pauseSiteScan} onResume={scanEntireSite} onDiscard={discardSiteScan} />}
+
+            {batchJob && <BatchPanel job={batchJob} onReview={() => setIsBatchModalOpen(true)} onStop={cancelBatchGeneration} onClear={clearBatchJob} />}
+
+            {!isScoring && !isSiteScanning && failedScoreCount > 0 && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300 px-4 py-3 rounded-md" role="alert">
+                    <span>{failedScoreCount} {failedScoreCount === 1 ? 'post' : 'posts'} could not be scored, usually because the provider's rate limit was reached.</span>
+                    <Button onClick={runOpportunityAnalysis} variant="secondary" className="!text-xs !py-1 !px-3 flex-shrink-0">
+                        Retry Failed
+                    </Button>
+                </div>
+            )}
+
             {topOpportunity && <TopOpportunityCard post={topOpportunity} onBegin={() => onBeginToolCreation(topOpportunity)} />}
 
              <div className="flex flex-col sm:flex-row gap-4 justify-between sm:items-center mb-6">
                  <div className="w-full sm:w-auto sm:max-w-xs">
                     <Input 
-                        type="search" icon={<SearchIcon className="w-5 h-5" />} placeholder="Search all posts..."
+                        type="search" icon={<SearchIcon className="w-5 h-5" />} placeholder={`Search all ${typeName}...`}
                         value={localSearchQuery} onChange={(e) => setLocalSearchQuery(e.target.value)}
                     />
                 </div>
-                <div>
+                <div className="flex flex-wrap gap-2">
+                     <select
+                        value={postQuery.restBase} onChange={(e) => handlePostTypeChange(e.target.value)}
+                        disabled={status === 'loading'} className={selectClasses} aria-label="Post type"
+                     >
+                        {postTypes.map(type => <option key={type.restBase} value={type.restBase}>{type.name}</option>)}
+                     </select>
+                     <select
+                        value={postQuery.status} onChange={(e) => setPostQuery({ ...postQuery, status: e.target.value as PostStatusFilter })}
+                        disabled={status === 'loading'} className={selectClasses} aria-label="Post status"
+                     >
+                        {POST_STATUS_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                     </select>
                      <select 
-                        value={postSortOrder} onChange={(e) => setPostSortOrder(e.target.value as 'opportunity' | 'date')}
-                        className="rounded-md border-0 py-2 pl-3 pr-8 bg-white/80 dark:bg-slate-900/70 text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 sm:text-sm sm:leading-6 transition-all"
+                        value={postSortOrder === 'opportunity' ? 'opportunity' : postQuery.orderby}
+                        onChange={(e) => handleSortChange(e.target.value as PostOrderBy | 'opportunity')}
+                        className={selectClasses} aria-label="Sort order"
                      >
-                        <option value="date">Sort by Date</option>
+                        {SORT_OPTIONS.filter(option => option.value !== 'relevance' || postQuery.search).map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
                         <option value="opportunity">Sort by Opportunity</option>
                      </select>
                 </div>
             </div>
 
+            <div className="space-y-3 mb-6">
+                {showCategories && (
+                    <FilterChips label="Categories" terms={categories} selected={postQuery.categories} onToggle={(id) => toggleTerm('categories', id)} disabled={status === 'loading'} />
+                )}
+                {showTags && (
+                    <FilterChips label="Tags" terms={tags} selected={postQuery.tags} onToggle={(id) => toggleTerm('tags', id)} disabled={status === 'loading'} />
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 w-20">Published</span>
+                    <label className="flex items-center gap-2">
+                        From
+                        <input
+                            type="date" value={postQuery.after} max={postQuery.before || undefined}
+                            onChange={(e) => setPostQuery({ ...postQuery, after: e.target.value })}
+                            disabled={status === 'loading'} className={`${selectClasses} !py-1 !pr-3`}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        To
+                        <input
+                            type="date" value={postQuery.before} min={postQuery.after || undefined}
+                            onChange={(e) => setPostQuery({ ...postQuery, before: e.target.value })}
+                            disabled={status === 'loading'} className={`${selectClasses} !py-1 !pr-3`}
+                        />
+                    </label>
+                    {hasFilters && (
+                        <button type="button" onClick={clearFilters} className="ml-2 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                            Clear filters
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {!batchJob && (
+                <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-slate-600 dark:text-slate-300">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 w-20">Batch</span>
+                    <label className="flex items-center gap-2">
+                        Top
+                        <input
+                            type="number" min={1} max={50} value={batchTopCount}
+                            onChange={(e) => setBatchTopCount(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+                            className={`${selectClasses} !py-1 !pr-2 w-16`} aria-label="Number of top posts"
+                        />
+                    </label>
+                    <Button onClick={() => startBatch(topBatchPosts)} variant="secondary" className="!text-xs !py-1.5 !px-3" disabled={topBatchPosts.length === 0 || isScoring}>
+                        Generate for Top {topBatchPosts.length}
+                    </Button>
+                    <Button
+                        onClick={() => startBatch(posts.filter(p => batchPostIds.includes(p.id)))}
+                        variant="secondary" className="!text-xs !py-1.5 !px-3" disabled={batchPostIds.length === 0}
+                    >
+                        Generate for {batchPostIds.length} Selected
+                    </Button>
+                    <label className="flex items-center gap-2 ml-2">
+                        <input type="checkbox" checked={autoPickIdea} onChange={(e) => setAutoPickIdea(e.target.checked)} className="rounded" />
+                        Auto-pick the first idea
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={autoFixBatch} onChange={(e) => setAutoFixBatch(e.target.checked)} className="rounded" />
+                        Auto-fix failing tools
+                    </label>
+                </div>
+            )}
+
             {renderContent()}
         </section>
       </div>
@@ -346,6 +755,11 @@ export default function PostDashboard({ onBeginToolCreation }: PostDashboardProp
         </p>
         <p className="mt-2 text-sm text-slate-500">This action cannot be undone.</p>
     </ConfirmationModal>
+
+      {isBatchModalOpen && <BatchReviewModal onClose={() => setIsBatchModalOpen(false)} />}
+      {isProfileModalOpen && <ScoringProfileModal onClose={() => setIsProfileModalOpen(false)} />}
+      {historyPost && <ToolHistoryModal post={historyPost} onClose={() => setHistoryPost(null)} />}
+      <RefreshReviewModal />
   </>
   );
 }
@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { AI_PROVIDERS } from '../constants';
+import { Button } from './common/Button';
+import { Spinner } from './common/Spinner';
+import { CodeDiff } from './common/CodeDiff';
+import { EyeIcon, CodeBracketIcon } from './icons/ToolIcons';
+import { buildPreviewDocument } from '../services/previewService';
+
+/**
+ * Shows a finished tool refresh next to the live version. The new snippet is only
+ * written to WordPress when the user accepts it.
+ */
+export const RefreshReviewModal: React.FC = () => {
+    const { state, acceptRefresh, discardRefresh } = useAppContext();
+    const { pendingRefresh, posts, theme } = state;
+    const [activeTab, setActiveTab] = useState<'diff' | 'preview'>('diff');
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const post = posts.find(p => p.id === pendingRefresh?.postId);
+    const oldPreview = useMemo(() => pendingRefresh ? buildPreviewDocument(pendingRefresh.oldSnippet, theme) : '', [pendingRefresh, theme]);
+    const newPreview = useMemo(() => pendingRefresh ? buildPreviewDocument(pendingRefresh.newSnippet, theme) : '', [pendingRefresh, theme]);
+
+    if (!pendingRefresh) return null;
+
+    const handleAccept = async () => {
+        setIsPublishing(true);
+        setError(null);
+        try {
+            await acceptRefresh();
+        } catch (e: any) {
+            setError(e.message || 'Failed to publish the refreshed tool.');
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    const tabClasses = (isActive: boolean) => `flex items-center gap-2 px-3 py-2 sm:px-4 text-sm font-semibold rounded-t-md transition-colors border-b-2 ${isActive ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400' : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-800 dark:hover:text-slate-200'}`;
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-40 flex items-center justify-center p-4 animate-fade-in" aria-labelledby="review-modal-title" role="dialog" aria-modal="true">
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-7xl p-6 sm:p-8 border border-slate-200 dark:border-slate-700 max-h-[90vh] flex flex-col">
+                <header className="flex-shrink-0 mb-4">
+                    <h2 id="review-modal-title" className="text-lg sm:text-xl font-bold text-slate-900 dark:text-slate-100">Review Refreshed Tool</h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {post && <span dangerouslySetInnerHTML={{ __html: `"${post.title.rendered}" · ` }} />}
+                        Generated by {pendingRefresh.model} ({AI_PROVIDERS[pendingRefresh.provider]?.name}). Nothing is published until you accept.
+                    </p>
+                </header>
+
+                <div className="flex items-center border-b border-slate-200 dark:border-slate-700">
+                    <button type="button" onClick={() => setActiveTab('diff')} className={tabClasses(activeTab === 'diff')}>
+                        <CodeBracketIcon className="w-5 h-5" /> Code Diff
+                    </button>
+                    <button type="button" onClick={() => setActiveTab('preview')} className={tabClasses(activeTab === 'preview')}>
+                        <EyeIcon className="w-5 h-5" /> Previews
+                    </button>
+                </div>
+
+                <div className="flex-grow min-h-[50vh] overflow-hidden pt-3">
+                    {activeTab === 'diff' ? (
+                        <CodeDiff oldCode={pendingRefresh.oldSnippet} newCode={pendingRefresh.newSnippet} mode="split" className="h-full" />
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 h-full">
+                            {[{ label: 'Current (live)', doc: oldPreview }, { label: 'Refreshed', doc: newPreview }].map(({ label, doc }) => (
+                                <div key={label} className="flex flex-col min-h-[40vh]">
+                                    <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 mb-1">{label}</p>
+                                    <iframe
+                                        srcDoc={doc}
+                                        title={`${label} preview`}
+                                        className="flex-grow w-full border border-slate-200 dark:border-slate-700 rounded-md bg-transparent"
+                                        sandbox="allow-scripts allow-forms allow-modals"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {error && (
+                    <div className="mt-4 bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-md text-sm" role="alert">
+                        <strong className="font-bold">An Error Occurred: </strong>
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <footer className="flex-shrink-0 mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3">
+                    <Button onClick={discardRefresh} variant="secondary" disabled={isPublishing}>Discard</Button>
+                    <Button onClick={handleAccept} disabled={isPublishing}>
+                        {isPublishing ? <><Spinner /> Publishing...</> : 'Accept & Publish'}
+                    </Button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default RefreshReviewModal;
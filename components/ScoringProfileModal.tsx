@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { ScoringCriterion, ScoringExample, ScoringProfile, SiteScoringProfiles } from '../types';
+import { getActiveProfile, getProfileKey } from '../services/scoringProfileService';
+import { Button } from './common/Button';
+import { XCircleIcon } from './icons/XCircleIcon';
+
+interface ScoringProfileModalProps {
+    onClose: () => void;
+}
+
+const inputClasses = 'w-full min-w-0 rounded-md border-0 py-1.5 px-3 bg-white/80 dark:bg-slate-900/70 text-sm text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-blue-600';
+const removeButtonClasses = 'flex-shrink-0 text-xs text-slate-500 hover:text-red-600 dark:text-slate-400 dark:hover:text-red-400';
+const addButtonClasses = 'text-xs text-blue-600 dark:text-blue-400 hover:underline';
+
+// Drops blank rows and tool types left over from editing.
+const tidyProfile = (profile: ScoringProfile): ScoringProfile => ({
+    ...profile,
+    name: profile.name.trim(),
+    criteria: profile.criteria.filter(c => c.name.trim()),
+    examples: profile.examples.filter(e => e.title.trim()),
+    targetToolTypes: profile.targetToolTypes.map(t => t.trim()).filter(Boolean),
+});
+
+const validateProfile = (profile: ScoringProfile): string | null => {
+    if (!profile.name) return 'Every profile needs a name.';
+    if (!profile.criteria.some(c => c.weight > 0)) return `"${profile.name}" needs at least one criterion with a weight above 0.`;
+    return null;
+};
+
+/**
+ * Edits the connected site's scoring profiles: weighted criteria, reference posts and the tool types to favor.
+ * Saving a different rubric clears the current scores so posts are scored again under it.
+ */
+export const ScoringProfileModal: React.FC<ScoringProfileModalProps> = ({ onClose }) => {
+    const { state, setScoringProfiles } = useAppContext();
+    const [draft, setDraft] = useState<SiteScoringProfiles>(state.scoringProfiles);
+    const [error, setError] = useState<string | null>(null);
+
+    const profile = getActiveProfile(draft);
+    const rubricChanged = getProfileKey(tidyProfile(profile)) !== getProfileKey(getActiveProfile(state.scoringProfiles));
+
+    const updateProfile = (changes: Partial<ScoringProfile>) => {
+        setDraft({ ...draft, profiles: draft.profiles.map(p => p.id === profile.id ? { ...p, ...changes } : p) });
+    };
+
+    const updateCriterion = (index: number, changes: Partial<ScoringCriterion>) => {
+        updateProfile({ criteria: profile.criteria.map((c, i) => i === index ? { ...c, ...changes } : c) });
+    };
+
+    const updateExample = (index: number, changes: Partial<ScoringExample>) => {
+        updateProfile({ examples: profile.examples.map((e, i) => i === index ? { ...e, ...changes } : e) });
+    };
+
+    const handleDuplicate = () => {
+        const copy: ScoringProfile = { ...profile, id: `custom-${Date.now().toString(36)}`, name: `${profile.name} (copy)` };
+        setDraft({ profiles: [...draft.profiles, copy], activeProfileId: copy.id });
+    };
+
+    const handleDelete = () => {
+        const profiles = draft.profiles.filter(p => p.id !== profile.id);
+        setDraft({ profiles, activeProfileId: profiles[0].id });
+    };
+
+    const handleSave = () => {
+        const profiles = draft.profiles.map(tidyProfile);
+        for (const p of profiles) {
+            const problem = validateProfile(p);
+            if (problem) {
+                setError(problem);
+                return;
+            }
+        }
+        setScoringProfiles({ ...draft, profiles });
+        onClose();
+    };
+
+    const totalWeight = profile.criteria.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-40 flex items-center justify-center p-4 animate-fade-in" aria-labelledby="scoring-profile-modal-title" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-3xl p-6 sm:p-8 border border-slate-200 dark:border-slate-700 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <header className="flex-shrink-0 flex justify-between items-start mb-4">
+                    <div>
+                        <h2 id="scoring-profile-modal-title" className="text-lg sm:text-xl font-bold text-slate-900 dark:text-slate-100">Scoring Profile</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">The rubric posts on this site are scored against.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+                        <XCircleIcon className="w-8 h-8"/>
+                    </button>
+                </header>
+
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <select
+                        value={profile.id}
+                        onChange={(e) => setDraft({ ...draft, activeProfileId: e.target.value })}
+                        className={`${inputClasses} !w-auto`}
+                        aria-label="Active scoring profile"
+                    >
+                        {draft.profiles.map(p => <option key={p.id} value={p.id}>{p.name || 'Untitled profile'}</option>)}
+                    </select>
+                    <Button onClick={handleDuplicate} variant="secondary" className="!text-xs !py-1.5 !px-3">Duplicate</Button>
+                    <Button onClick={handleDelete} variant="secondary" className="!text-xs !py-1.5 !px-3" disabled={draft.profiles.length <= 1}>Delete</Button>
+                </div>
+
+                <div className="flex-grow min-h-0 overflow-y-auto space-y-6 pr-1">
+                    <div>
+                        <label htmlFor="profile-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Name</label>
+                        <input id="profile-name" type="text" value={profile.name} onChange={(e) => updateProfile({ name: e.target.value })} className={inputClasses} />
+                    </div>
+
+                    <fieldset>
+                        <legend className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Criteria</legend>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Weights are relative; the prompt states each as a share of 100.</p>
+                        <div className="space-y-3">
+                            {profile.criteria.map((criterion, index) => (
+                                <div key={index} className="space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <input type="text" value={criterion.name} onChange={(e) => updateCriterion(index, { name: e.target.value })} placeholder="Criterion" className={inputClasses} aria-label="Criterion name" />
+                                        <input type="number" min={0} value={criterion.weight} onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })} className={`${inputClasses} !w-20`} aria-label="Criterion weight" />
+                                        <span className="w-10 flex-shrink-0 text-xs text-right text-slate-500 dark:text-slate-400">
+                                            {totalWeight > 0 ? `${Math.round((Math.max(0, criterion.weight) / totalWeight) * 100)}%` : '—'}
+                                        </span>
+                                        <button type="button" onClick={() => updateProfile({ criteria: profile.criteria.filter((_, i) => i !== index) })} className={removeButtonClasses}>Remove</button>
+                                    </div>
+                                    <input type="text" value={criterion.description} onChange={(e) => updateCriterion(index, { description: e.target.value })} placeholder="What earns a high score on this criterion" className={inputClasses} aria-label="Criterion description" />
+                                </div>
+                            ))}
+                        </div>
+                        <button type="button" onClick={() => updateProfile({ criteria: [...profile.criteria, { name: '', weight: 10, description: '' }] })} className={`${addButtonClasses} mt-2`}>+ Add criterion</button>
+                    </fieldset>
+
+                    <fieldset>
+                        <legend className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Example posts</legend>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Titles with the score they should get, as reference points for the model.</p>
+                        <div className="space-y-2">
+                            {profile.examples.map((example, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <input type="text" value={example.title} onChange={(e) => updateExample(index, { title: e.target.value })} placeholder="Post title" className={inputClasses} aria-label="Example post title" />
+                                    <input type="number" min={0} max={100} value={example.score} onChange={(e) => updateExample(index, { score: Math.min(100, Math.max(0, Number(e.target.value))) })} className={`${inputClasses} !w-20`} aria-label="Example score" />
+                                    <button type="button" onClick={() => updateProfile({ examples: profile.examples.filter((_, i) => i !== index) })} className={removeButtonClasses}>Remove</button>
+                                </div>
+                            ))}
+                        </div>
+                        <button type="button" onClick={() => updateProfile({ examples: [...profile.examples, { title: '', score: 50 }] })} className={`${addButtonClasses} mt-2`}>+ Add example</button>
+                    </fieldset>
+
+                    <div>
+                        <label htmlFor="profile-tool-types" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Target tool types</label>
+                        <input
+                            id="profile-tool-types"
+                            type="text"
+                            value={profile.targetToolTypes.join(', ')}
+                            onChange={(e) => updateProfile({ targetToolTypes: e.target.value.split(',').map(t => t.trimStart()) })}
+                            placeholder="calculator, comparison chart, checklist"
+                            className={inputClasses}
+                        />
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="mt-4 bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-md text-sm" role="alert">
+                        {error}
+                    </div>
+                )}
+
+                <footer className="flex-shrink-0 flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-6">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {rubricChanged ? 'Saving will clear the current scores and re-score posts with this profile.' : 'Scores stay as they are.'}
+                    </p>
+                    <div className="flex gap-2">
+                        <Button onClick={onClose} variant="secondary">Cancel</Button>
+                        <Button onClick={handleSave}>Save</Button>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default ScoringProfileModal;
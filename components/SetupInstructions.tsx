@@ -2,23 +2,213 @@ import React, { useState } from 'react';
 import { Button } from './common/Button';
 import { ClipboardIcon } from './icons/ActionIcons';
 import { CheckIcon } from './icons/CheckIcon';
+import { CONNECTOR_VERSION } from '../constants';
 
 interface SetupInstructionsProps {
   onRetryConnection: () => void;
 }
 
-const phpCode = `// --- HTML Snippet AI Connector v3.1 ---
+const phpCode = `// --- HTML Snippet AI Connector v${CONNECTOR_VERSION} ---
 // Fixes the "Code Stripping" issue by bypassing default WP sanitization for the secure field.
+// v3.2: Keeps a version history of every tool so a bad AI refresh can be rolled back.
+// v3.3: Adds an "AI Tool" block with a tool picker and live preview, plus a tool picker for the classic editor.
+// v3.4: Can render a tool in a Shadow DOM or a sandboxed iframe so its CSS and the theme's stay apart.
 
 if ( ! class_exists( 'HTMLSnippetAI_Connector' ) ) {
     /**
      * The main connector class for HTML Snippet AI.
-     * Handles CPT registration, meta fields, and shortcode rendering securely.
+     * Handles CPT registration, meta fields, and shortcode and block rendering securely.
      */
     final class HTMLSnippetAI_Connector {
 
         private static $instance;
 
+        // Editor script for the contentforge/tool block. Plain ES5 on the wp.* globals: no build step needed.
+        const TOOL_BLOCK_SCRIPT = <<<'JS'
+( function( blocks, element, blockEditor, components, data ) {
+    var el = element.createElement;
+    blocks.registerBlockType( 'contentforge/tool', {
+        apiVersion: 2,
+        title: 'AI Tool',
+        description: 'An interactive tool created by HTML Snippet AI.',
+        icon: 'admin-tools',
+        category: 'widgets',
+        attributes: { toolId: { type: 'number', default: 0 } },
+        edit: function( props ) {
+            var blockProps = blockEditor.useBlockProps();
+            var tools = data.useSelect( function( select ) {
+                return select( 'core' ).getEntityRecords( 'postType', 'cf_tool', { per_page: -1, status: 'publish', context: 'edit' } );
+            }, [] );
+            var tool = ( tools || [] ).find( function( item ) { return item.id === props.attributes.toolId; } );
+            var options = [ { label: tools ? 'Select a tool...' : 'Loading tools...', value: 0 } ].concat( ( tools || [] ).map( function( item ) {
+                return { label: item.title.raw || ( 'Tool #' + item.id ), value: item.id };
+            } ) );
+            var picker = el( components.SelectControl, {
+                label: 'AI Tool',
+                value: props.attributes.toolId,
+                options: options,
+                onChange: function( value ) { props.setAttributes( { toolId: parseInt( value, 10 ) || 0 } ); }
+            } );
+
+            return el( 'div', blockProps,
+                el( blockEditor.InspectorControls, null, el( components.PanelBody, { title: 'Tool' }, picker ) ),
+                tool
+                    ? el( components.SandBox, { html: tool.meta._cf_tool_html_snippet || tool.content.raw, title: tool.title.raw } )
+                    : el( components.Placeholder, { icon: 'admin-tools', label: 'AI Tool', instructions: 'Pick one of the tools created by HTML Snippet AI.' }, picker )
+            );
+        },
+        // Rendered on the server so tool updates reach every post that uses it.
+        save: function() { return null; }
+    } );
+} )( window.wp.blocks, window.wp.element, window.wp.blockEditor, window.wp.components, window.wp.data );
+JS;
+
+        // Front-end runtime for isolated tools. Shadow tools arrive in an inert <template>; their markup is moved into a
+        // shadow root and their scripts run with document lookups scoped to it. Framed tools report their height here.
+        const EMBED_SCRIPT = <<<'JS'
+( function() {
+    var NL = String.fromCharCode( 10 );
+
+    function isReady( type ) {
+        if ( type === 'load' ) return document.readyState === 'complete';
+        if ( type === 'DOMContentLoaded' ) return document.readyState !== 'loading';
+        return false;
+    }
+
+    // Tools usually wait for DOMContentLoaded; if it has already fired, run the listener right away instead.
+    function readyAwareListener( target ) {
+        return function( type, listener, options ) {
+            if ( ! isReady( type ) ) return target.addEventListener( type, listener, options );
+            setTimeout( function() {
+                var event = new Event( type );
+                if ( typeof listener === 'function' ) listener.call( target, event );
+                else if ( listener ) listener.handleEvent( event );
+            }, 0 );
+        };
+    }
+
+    function scopedProxy( target, overrides ) {
+        return new Proxy( target, {
+            get: function( obj, prop ) {
+                if ( Object.prototype.hasOwnProperty.call( overrides, prop ) ) return overrides[ prop ];
+                var value = obj[ prop ];
+                // Methods such as setTimeout need their real receiver; constructors such as Date must stay unbound.
+                return typeof value === 'function' && typeof prop === 'string' && /^[a-z]/.test( prop ) ? value.bind( obj ) : value;
+            },
+            set: function( obj, prop, value ) {
+                obj[ prop ] = value;
+                return true;
+            }
+        } );
+    }
+
+    function scopedDocument( root ) {
+        return scopedProxy( document, {
+            getElementById: function( id ) { return root.getElementById( id ); },
+            querySelector: function( selector ) { return root.querySelector( selector ); },
+            querySelectorAll: function( selector ) { return root.querySelectorAll( selector ); },
+            getElementsByClassName: function( names ) {
+                return root.querySelectorAll( names.trim().split( / +/ ).map( function( name ) { return '.' + name; } ).join( '' ) );
+            },
+            getElementsByTagName: function( tag ) { return root.querySelectorAll( tag ); },
+            getElementsByName: function( name ) { return root.querySelectorAll( '[name="' + name + '"]' ); },
+            addEventListener: readyAwareListener( document )
+        } );
+    }
+
+    // Page-level selectors have nothing to match inside a shadow root, so they are pointed at the host.
+    function toHostSelector( selector ) {
+        var trimmed = selector.trim();
+        var match = /^(:root|html|body)(?![-_a-zA-Z0-9])/.exec( trimmed );
+        return match ? ':host' + trimmed.slice( match[ 0 ].length ) : selector;
+    }
+
+    function scopeStyles( css ) {
+        return css.replace( /([^{}]+)[{]/g, function( rule, selectors ) {
+            if ( selectors.trim().charAt( 0 ) === '@' ) return rule;
+            return selectors.split( ',' ).map( toHostSelector ).join( ',' ) + '{';
+        } );
+    }
+
+    function isJavaScript( script ) {
+        var type = ( script.getAttribute( 'type' ) || '' ).trim().toLowerCase();
+        return ! type || type === 'text/javascript' || type === 'application/javascript';
+    }
+
+    // Inline handlers like onclick="calculate()" are recompiled where they can see the tool's own functions.
+    function bindInlineHandlers( root, evaluate ) {
+        Array.prototype.forEach.call( root.querySelectorAll( '*' ), function( element ) {
+            Array.prototype.slice.call( element.attributes ).forEach( function( attribute ) {
+                if ( attribute.name.indexOf( 'on' ) !== 0 ) return;
+                try {
+                    element[ attribute.name ] = evaluate( '(function( event ) {' + attribute.value + NL + '})' );
+                } catch ( error ) {
+                    console.error( 'HTML Snippet AI: could not bind ' + attribute.name, error );
+                }
+            } );
+        } );
+    }
+
+    function mountShadowTool( host ) {
+        var template = host.querySelector( 'template' );
+        if ( ! template || host.shadowRoot ) return;
+
+        var root = host.attachShadow( { mode: 'open' } );
+        var content = template.content.cloneNode( true );
+        var code = [];
+        Array.prototype.forEach.call( content.querySelectorAll( 'script' ), function( script ) {
+            if ( ! isJavaScript( script ) ) return;
+            code.push( script.textContent );
+            script.parentNode.removeChild( script );
+        } );
+        Array.prototype.forEach.call( content.querySelectorAll( 'style' ), function( style ) {
+            style.textContent = scopeStyles( style.textContent );
+        } );
+
+        // Inherited theme styles (fonts, colors, line height) stop at the host.
+        var reset = document.createElement( 'style' );
+        reset.textContent = ':host { all: initial; display: block; }';
+        root.appendChild( reset );
+        root.appendChild( content );
+        host.removeChild( template );
+
+        var scopedDoc = scopedDocument( root );
+        var scopedWin = scopedProxy( window, { document: scopedDoc, addEventListener: readyAwareListener( window ) } );
+        try {
+            // All of the tool's scripts share one scope, like they would as globals on their own page.
+            var evaluate = new Function( 'document', 'window', code.join( NL + ';' + NL ) + NL + ';return function( source ) { return eval( source ); };' ).call( window, scopedDoc, scopedWin );
+            bindInlineHandlers( root, evaluate );
+        } catch ( error ) {
+            console.error( 'HTML Snippet AI: tool script failed', error );
+        }
+    }
+
+    window.addEventListener( 'message', function( event ) {
+        if ( ! event.data || event.data.source !== 'contentforge-tool-frame' ) return;
+        Array.prototype.forEach.call( document.querySelectorAll( 'iframe.contentforge-tool-frame' ), function( frame ) {
+            if ( frame.contentWindow === event.source ) frame.style.height = Math.ceil( event.data.height ) + 'px';
+        } );
+    } );
+
+    Array.prototype.forEach.call( document.querySelectorAll( '.contentforge-tool[data-cf-embed="shadow"]' ), mountShadowTool );
+} )();
+JS;
+
+        // Added to a framed tool's document: reports the content height so the iframe can grow to fit it.
+        const FRAME_RESIZE_SCRIPT = <<<'JS'
+( function() {
+    function report() {
+        parent.postMessage( { source: 'contentforge-tool-frame', height: document.documentElement.offsetHeight }, '*' );
+    }
+    window.addEventListener( 'load', report );
+    if ( window.ResizeObserver ) new ResizeObserver( report ).observe( document.body );
+    report();
+} )();
+JS;
+
+        // Inserts the picked tool's shortcode into the classic editor.
+        const CLASSIC_PICKER_SCRIPT = "if ( this.value ) { window.send_to_editor( '[contentforge_tool id=' + this.value + ']' ); this.value = ''; }";
+
         public static function get_instance() {
             if ( null === self::$instance ) {
                 self::$instance = new self();
@@ -30,6 +220,10 @@ if ( ! class_exists( 'HTMLSnippetAI_Connector' ) ) {
             add_action( 'init', array( $this, 'register_tool_cpt' ) );
             add_action( 'init', array( $this, 'register_meta_field' ) );
             add_action( 'init', array( $this, 'register_shortcode' ) );
+            add_action( 'init', array( $this, 'register_tool_block' ) );
+            add_action( 'init', array( $this, 'register_embed_script' ) );
+            add_action( 'media_buttons', array( $this, 'render_classic_editor_picker' ), 20 );
+            add_action( 'rest_api_init', array( $this, 'register_status_route' ) );
         }
 
         public function register_tool_cpt() {
@@ -62,6 +256,49 @@ if ( ! class_exists( 'HTMLSnippetAI_Connector' ) ) {
                     return $meta_value; 
                 }
             ) );
+
+            // v3.2: JSON list of earlier snippets with when and by which model they were made.
+            register_post_meta( 'cf_tool', '_cf_tool_versions', array(
+                'show_in_rest'  => true,
+                'single'        => true,
+                'type'          => 'string',
+                'default'       => '[]',
+                'auth_callback' => function() {
+                    return current_user_can( 'edit_posts' );
+                },
+                'sanitize_callback' => function( $meta_value ) {
+                    return $meta_value;
+                }
+            ) );
+
+            // v3.4: How the tool is placed in a post: 'inline', 'shadow' (Shadow DOM) or 'iframe'.
+            register_post_meta( 'cf_tool', '_cf_tool_embed_mode', array(
+                'show_in_rest'  => true,
+                'single'        => true,
+                'type'          => 'string',
+                'default'       => 'inline',
+                'auth_callback' => function() {
+                    return current_user_can( 'edit_posts' );
+                },
+                'sanitize_callback' => function( $meta_value ) {
+                    return in_array( $meta_value, array( 'inline', 'shadow', 'iframe' ), true ) ? $meta_value : 'inline';
+                }
+            ) );
+        }
+
+        /**
+         * Lets the app check which connector version is installed.
+         */
+        public function register_status_route() {
+            register_rest_route( 'contentforge/v1', '/status', array(
+                'methods'             => 'GET',
+                'permission_callback' => function() {
+                    return current_user_can( 'edit_posts' );
+                },
+                'callback'            => function() {
+                    return array( 'version' => '${CONNECTOR_VERSION}' );
+                },
+            ) );
         }
 
         public function register_shortcode() {
@@ -84,11 +321,116 @@ if ( ! class_exists( 'HTMLSnippetAI_Connector' ) ) {
 
             $html_snippet = get_post_meta( $tool_id, '_cf_tool_html_snippet', true );
 
-            if ( ! empty( $html_snippet ) ) {
-                return $html_snippet;
+            if ( empty( $html_snippet ) ) {
+                return $tool_post->post_content;
+            }
+
+            $embed_mode = get_post_meta( $tool_id, '_cf_tool_embed_mode', true );
+            if ( 'shadow' === $embed_mode ) {
+                return $this->render_shadow_tool( $html_snippet );
+            }
+            if ( 'iframe' === $embed_mode ) {
+                return $this->render_framed_tool( $html_snippet, $tool_post->post_title );
+            }
+
+            return $html_snippet;
+        }
+
+        /**
+         * v3.4: Splits out a tool's JSON-LD, which has to stay in the page itself for search engines to read it.
+         * Returns the JSON-LD script tags and the rest of the markup.
+         */
+        private function split_json_ld( $html ) {
+            $pattern = '#<script[^>]*application/ld[+]json[^>]*>.*?</script>#is';
+            preg_match_all( $pattern, $html, $matches );
+            return array( implode( '', $matches[0] ), preg_replace( $pattern, '', $html ) );
+        }
+
+        /**
+         * v3.4: Outputs the tool in an inert template that the embed script moves into a shadow root.
+         */
+        private function render_shadow_tool( $html ) {
+            list( $json_ld, $markup ) = $this->split_json_ld( $html );
+            wp_enqueue_script( 'contentforge-tool-embed' );
+            return $json_ld . '<div class="contentforge-tool" data-cf-embed="shadow"><template>' . $markup . '</template></div>';
+        }
+
+        /**
+         * v3.4: Outputs the tool as its own document in a sandboxed iframe that resizes to fit its content.
+         */
+        private function render_framed_tool( $html, $title ) {
+            list( $json_ld, $markup ) = $this->split_json_ld( $html );
+            if ( false === stripos( $markup, '<body' ) ) {
+                $markup = '<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head><body>' . $markup . '</body></html>';
             }
+            $resizer = '<script>' . self::FRAME_RESIZE_SCRIPT . '</script>';
+            $position = strripos( $markup, '</body>' );
+            $markup = false === $position ? $markup . $resizer : substr_replace( $markup, $resizer, $position, 0 );
 
-            return $tool_post->post_content;
+            wp_enqueue_script( 'contentforge-tool-embed' );
+            return $json_ld . sprintf(
+                '<iframe class="contentforge-tool-frame" title="%s" srcdoc="%s" sandbox="allow-scripts allow-forms allow-popups allow-modals" loading="lazy" style="display: block; width: 100%%; height: 480px; border: 0;"></iframe>',
+                esc_attr( $title ),
+                htmlspecialchars( $markup, ENT_QUOTES, 'UTF-8' )
+            );
+        }
+
+        /**
+         * v3.4: The front-end script for Shadow DOM and iframe tools, enqueued only on pages that show one.
+         */
+        public function register_embed_script() {
+            wp_register_script( 'contentforge-tool-embed', false, array(), '${CONNECTOR_VERSION}', true );
+            wp_add_inline_script( 'contentforge-tool-embed', self::EMBED_SCRIPT );
+        }
+
+        /**
+         * v3.3: A dynamic block so tools can be placed, moved and previewed in the block editor.
+         * It renders through the shortcode handler, so both forms always output the same tool.
+         */
+        public function register_tool_block() {
+            wp_register_script(
+                'contentforge-tool-block',
+                false,
+                array( 'wp-blocks', 'wp-element', 'wp-block-editor', 'wp-components', 'wp-data', 'wp-core-data' ),
+                '${CONNECTOR_VERSION}',
+                true
+            );
+            wp_add_inline_script( 'contentforge-tool-block', self::TOOL_BLOCK_SCRIPT );
+
+            register_block_type( 'contentforge/tool', array(
+                'api_version'     => 2,
+                'editor_script'   => 'contentforge-tool-block',
+                'attributes'      => array(
+                    'toolId' => array( 'type' => 'number', 'default' => 0 ),
+                ),
+                'render_callback' => function( $attributes ) {
+                    return $this->render_tool_shortcode( array( 'id' => (string) $attributes['toolId'] ) );
+                },
+            ) );
+        }
+
+        /**
+         * v3.3: A tool picker next to "Add Media" in the classic editor.
+         */
+        public function render_classic_editor_picker() {
+            $tools = get_posts( array(
+                'post_type'   => 'cf_tool',
+                'post_status' => 'publish',
+                'numberposts' => -1,
+            ) );
+            if ( empty( $tools ) ) {
+                return;
+            }
+
+            $options = '<option value="">Add AI Tool...</option>';
+            foreach ( $tools as $tool ) {
+                $options .= sprintf( '<option value="%d">%s</option>', $tool->ID, esc_html( $tool->post_title ) );
+            }
+            printf(
+                '<select class="contentforge-tool-picker" style="vertical-align: top;" onchange="%s">%s</select>',
+                esc_attr( self::CLASSIC_PICKER_SCRIPT ),
+                $options
+            );
         }
     }
 
@@ -118,9 +460,9 @@ const SetupInstructions: React.FC<SetupInstructionsProps> = ({ onRetryConnection
   return (
     <div className="animate-fade-in space-y-10">
       <div className="text-center">
-        <h2 className="text-3xl font-extrabold text-slate-900 dark:text-slate-100 tracking-tight">Update Required: Activate Connector v3.1</h2>
+        <h2 className="text-3xl font-extrabold text-slate-900 dark:text-slate-100 tracking-tight">Update Required: Activate Connector v{CONNECTOR_VERSION}</h2>
         <p className="mt-2 text-lg text-slate-600 dark:text-slate-300 max-w-3xl mx-auto">
-            We've updated the connector to fix an issue where WordPress was stripping code from saved tools. Please update your snippet to continue.
+            We've updated the connector so tools can be isolated in a Shadow DOM or an auto-resizing iframe, keeping their styles and your theme's from breaking each other. Please update your snippet to continue.
         </p>
       </div>
 
@@ -132,7 +474,7 @@ const SetupInstructions: React.FC<SetupInstructionsProps> = ({ onRetryConnection
                 <p>Go to your WordPress dashboard and find the "HTML Snippet AI Connector" snippet you created previously.</p>
             </StepCard>
             <StepCard number={2} title="Replace the Code">
-                <p>Delete the old code entirely. Click "Copy Code" on the right and paste the new v3.1 code into the editor.</p>
+                <p>Delete the old code entirely. Click "Copy Code" on the right and paste the new v{CONNECTOR_VERSION} code into the editor.</p>
             </StepCard>
             <StepCard number={3} title="Save/Update">
                 <p>Click "Update" or "Save Snippet". Ensure the switch is still set to <strong className="text-green-600 dark:text-green-400">Active</strong>.</p>
@@ -145,7 +487,7 @@ const SetupInstructions: React.FC<SetupInstructionsProps> = ({ onRetryConnection
         {/* Right Side: Code Block */}
         <div className="lg:col-span-3 bg-slate-900 rounded-lg shadow-2xl shadow-slate-400/20 dark:shadow-black/50 overflow-hidden border border-slate-700/50 h-full flex flex-col">
           <div className="flex-shrink-0 flex justify-between items-center px-4 py-2 bg-slate-800/50 border-b border-slate-700/50">
-            <span className="text-sm font-mono text-slate-300">Secure AI Connector v3.1</span>
+            <span className="text-sm font-mono text-slate-300">Secure AI Connector v{CONNECTOR_VERSION}</span>
             <button
               onClick={handleCopy}
               className="flex items-center gap-2 text-sm font-medium text-slate-300 hover:text-white transition-colors"
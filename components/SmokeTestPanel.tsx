@@ -0,0 +1,71 @@
+import React from 'react';
+import { SmokeTestReport } from '../types';
+import { Button } from './common/Button';
+import { Spinner } from './common/Spinner';
+import { CheckIcon } from './icons/CheckIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+
+interface SmokeTestPanelProps {
+  report: SmokeTestReport | null;
+  isRunning: boolean;
+  onRun: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows the result of loading the tool headlessly and typing sample values into it.
+ */
+export const SmokeTestPanel: React.FC<SmokeTestPanelProps> = ({ report, isRunning, onRun, disabled }) => (
+  <div className="h-full overflow-y-auto p-4 space-y-4 text-sm text-slate-700 dark:text-slate-200">
+    <div className="flex items-center justify-between gap-4">
+      {isRunning ? (
+        <p className="flex items-center text-slate-500 dark:text-slate-400"><Spinner /> Filling inputs and watching for errors...</p>
+      ) : report ? (
+        <p className={`flex items-center gap-2 font-semibold ${report.passed ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {report.passed ? <CheckIcon className="w-5 h-5" /> : <XCircleIcon className="w-5 h-5" />}
+          {report.passed ? 'Smoke test passed' : 'Smoke test failed'}
+          <span className="font-normal text-xs text-slate-500 dark:text-slate-400">
+            · {report.inputsFilled} inputs filled · {report.eventsFired} events · {(report.durationMs / 1000).toFixed(1)}s
+          </span>
+        </p>
+      ) : (
+        <p className="text-slate-500 dark:text-slate-400">Not run yet.</p>
+      )}
+      <Button onClick={onRun} variant="secondary" className="!text-xs !py-1 !px-3 flex-shrink-0" disabled={disabled || isRunning}>
+        {report ? 'Run Again' : 'Run Smoke Test'}
+      </Button>
+    </div>
+
+    {report && !isRunning && (
+      <>
+        <section>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 mb-1">Errors</h4>
+          {report.errors.length === 0 ? (
+            <p className="text-green-600 dark:text-green-400">No console errors or uncaught exceptions.</p>
+          ) : (
+            <ul className="space-y-1 font-mono text-xs text-red-700 dark:text-red-300">
+              {report.errors.map((error, index) => <li key={index} className="break-words">{error}</li>)}
+            </ul>
+          )}
+        </section>
+        <section>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 mb-1">Outputs</h4>
+          {report.outputs.length === 0 ? (
+            <p className="text-red-600 dark:text-red-400">No &lt;output&gt; elements were found, so no results could be checked.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <tbody>
+                {report.outputs.map((output, index) => (
+                  <tr key={index} className="border-t border-slate-200 dark:border-slate-700">
+                    <td className="py-1 pr-3 font-mono text-slate-500 dark:text-slate-400">{output.label}</td>
+                    <td className={`py-1 font-mono break-all ${output.ok ? '' : 'text-red-600 dark:text-red-400'}`}>{output.value || '(empty)'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,45 @@
+import React from 'react';
+import { SnippetIssue } from '../types';
+
+interface SnippetReportProps {
+  issues: SnippetIssue[];
+  allowErrors: boolean; // Whether someone chose to insert despite the errors
+  onAllowErrorsChange: (allow: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lists the quality and safety issues found in a snippet. Errors block insertion until explicitly overridden.
+ */
+export const SnippetReport: React.FC<SnippetReportProps> = ({ issues, allowErrors, onAllowErrorsChange, disabled }) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  if (issues.length === 0) {
+    return <p className="text-sm text-green-600 dark:text-green-400">All quality and safety checks passed.</p>;
+  }
+
+  return (
+    <div className={`rounded-md border px-3 py-2 text-sm ${errorCount > 0 ? 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20' : 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20'}`}>
+      <p className="font-semibold text-slate-700 dark:text-slate-200">
+        {errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`}
+        {errorCount > 0 && warningCount > 0 && ' · '}
+        {warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`}
+      </p>
+      <ul className="mt-1 max-h-40 overflow-y-auto space-y-1">
+        {issues.map((issue, index) => (
+          <li key={index} className={issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'} title={issue.rule}>
+            {issue.line !== undefined && <span className="font-mono text-xs mr-1 opacity-75">L{issue.line}</span>}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+      {errorCount > 0 && (
+        <label className="mt-2 flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={allowErrors} onChange={(e) => onAllowErrorsChange(e.target.checked)} disabled={disabled} className="rounded" />
+          I've reviewed the errors; insert anyway
+        </label>
+      )}
+    </div>
+  );
+};
@@ -1,20 +1,37 @@
-import React, { useEffect, useState, useMemo, useReducer } from 'react';
-import { useAppContext } from '../context/AppContext';
+import React, { useEffect, useState, useMemo, useReducer, useRef } from 'react';
+import { useAppContext, getProviderCredentials } from '../context/AppContext';
 import { Button } from './common/Button';
 import { Card } from './common/Card';
 import { Spinner } from './common/Spinner';
 import { Skeleton } from './common/Skeleton';
 import { DynamicIcon } from './icons/DynamicIcon';
-import { ToolIdea, WordPressPost } from '../types';
+import { AutoFixAttempt, ChatMessage, EmbedMode, SmokeTestReport, ToolIdea, WordPressPost } from '../types';
 import { CheckIcon } from './icons/CheckIcon';
 import { EyeIcon, CodeBracketIcon } from './icons/ToolIcons';
 import { XCircleIcon } from './icons/XCircleIcon';
 import * as aiService from '../services/aiService';
-import { AI_PROVIDERS } from '../constants';
 import { useDebounce } from '../hooks/useDebounce';
+import { buildPreviewDocument } from '../services/previewService';
+import { InsertionPointPicker } from './InsertionPointPicker';
+import { getEditableContent } from '../services/blockService';
+import { checkSnippet, hasBlockingIssues } from '../services/snippetQualityService';
+import { SnippetReport } from './SnippetReport';
+import { findSnippetProblems, runSmokeTest } from '../services/smokeTestService';
+import { SmokeTestPanel } from './SmokeTestPanel';
+import { FixAttemptsList } from './FixAttemptsList';
+import { normalizeSnippet } from '../services/embedService';
+import { DEFAULT_AUTO_FIX_ATTEMPTS, DEFAULT_EMBED_MODE, MAX_AUTO_FIX_ATTEMPTS } from '../constants';
+import { EmbedModePicker } from './EmbedModePicker';
 
 type ModalStatus = 'idle' | 'loading_ideas' | 'generating_snippet' | 'inserting_snippet' | 'error' | 'success';
 
+// A complete snippet produced by a generation or refinement, kept so the user can step back to it.
+interface SnippetRevision {
+    label: string;
+    snippet: string;
+    createdAt: number;
+}
+
 interface ModalState {
     status: ModalStatus;
     error: string | null;
@@ -22,6 +39,12 @@ interface ModalState {
     selectedIdea: ToolIdea | null;
     generatedSnippet: string;
     editedSnippet: string;
+    chatMessages: ChatMessage[];
+    revisions: SnippetRevision[];
+    activeRevision: number; // Index into revisions; -1 before the first one completes.
+    // The code a running refinement started from, restored if it fails or is stopped.
+    refiningFrom: string | null;
+    fixAttempts: AutoFixAttempt[]; // The auto-fix passes behind the current generation, if it ran in that mode
 }
 
 type ModalAction =
@@ -30,13 +53,17 @@ type ModalAction =
     | { type: 'GET_IDEAS_FAILURE'; payload: string }
     | { type: 'SELECT_IDEA'; payload: ToolIdea }
     | { type: 'GENERATE_SNIPPET_START' }
+    | { type: 'REFINE_SNIPPET_START'; payload: string }
+    | { type: 'RESTORE_REVISION'; payload: number }
     | { type: 'GENERATE_SNIPPET_STREAM'; payload: string }
+    | { type: 'AUTO_FIX_PROGRESS'; payload: AutoFixAttempt }
     | { type: 'GENERATE_SNIPPET_END' }
     | { type: 'GENERATE_SNIPPET_FAILURE'; payload: string }
     | { type: 'EDIT_SNIPPET'; payload: string }
     | { type: 'INSERT_SNIPPET_START' }
     | { type: 'INSERT_SNIPPET_SUCCESS' }
-    | { type: 'INSERT_SNIPPET_FAILURE'; payload: string };
+    | { type: 'INSERT_SNIPPET_FAILURE'; payload: string }
+    | { type: 'OPERATION_CANCELLED' };
 
 const initialState: ModalState = {
     status: 'idle',
@@ -45,8 +72,29 @@ const initialState: ModalState = {
     selectedIdea: null,
     generatedSnippet: '',
     editedSnippet: '',
+    chatMessages: [],
+    revisions: [],
+    activeRevision: -1,
+    refiningFrom: null,
+    fixAttempts: [],
+};
+
+// Names the revision an auto-fix attempt produced; attempt 0 is the generation itself.
+const generationLabel = (state: ModalState, attempt: number): string => {
+    if (attempt > 0) return `Auto-fix ${attempt}`;
+    return state.revisions.length === 0 ? 'Initial generation' : 'Regenerated';
 };
 
+// Cancelling or failing a refinement puts back the code it started from instead of a partial stream,
+// and drops the unanswered request from the conversation.
+const restoreRefinedSnippet = (state: ModalState): Partial<ModalState> =>
+    state.refiningFrom === null ? {} : {
+        editedSnippet: state.refiningFrom,
+        generatedSnippet: state.refiningFrom,
+        refiningFrom: null,
+        chatMessages: state.chatMessages.slice(0, -1),
+    };
+
 function modalReducer(state: ModalState, action: ModalAction): ModalState {
     switch(action.type) {
         case 'GET_IDEAS_START':
@@ -58,14 +106,57 @@ function modalReducer(state: ModalState, action: ModalAction): ModalState {
         case 'SELECT_IDEA':
             return { ...state, selectedIdea: action.payload };
         case 'GENERATE_SNIPPET_START':
-            return { ...state, status: 'generating_snippet', generatedSnippet: '', editedSnippet: '', error: null };
+            // A fresh generation starts a new conversation, but earlier revisions stay reachable.
+            return { ...state, status: 'generating_snippet', generatedSnippet: '', editedSnippet: '', error: null, chatMessages: [], refiningFrom: null, fixAttempts: [] };
+        case 'REFINE_SNIPPET_START':
+            return {
+                ...state,
+                status: 'generating_snippet',
+                error: null,
+                refiningFrom: state.editedSnippet,
+                fixAttempts: [],
+                generatedSnippet: '',
+                editedSnippet: '',
+                chatMessages: [...state.chatMessages, { role: 'user', content: action.payload }],
+            };
         case 'GENERATE_SNIPPET_STREAM':
             const newSnippet = state.generatedSnippet + action.payload;
             return { ...state, generatedSnippet: newSnippet, editedSnippet: newSnippet };
+        case 'AUTO_FIX_PROGRESS':
+            const attempt = action.payload;
+            const fixAttempts = [...state.fixAttempts.filter(a => a.attempt !== attempt.attempt), attempt];
+            if (attempt.status !== 'generating' || attempt.attempt === 0) return { ...state, fixAttempts };
+            // A fix is starting: keep the failed version as a revision and stream the patch in its place.
+            return {
+                ...state,
+                fixAttempts,
+                revisions: [...state.revisions, { label: `${generationLabel(state, attempt.attempt - 1)} (failed checks)`, snippet: state.generatedSnippet, createdAt: Date.now() }],
+                generatedSnippet: '',
+                editedSnippet: '',
+            };
         case 'GENERATE_SNIPPET_END':
-            return { ...state, status: 'idle' };
+            const lastRequest = state.refiningFrom !== null ? state.chatMessages[state.chatMessages.length - 1]?.content : undefined;
+            const revisions = [...state.revisions, {
+                label: lastRequest ?? generationLabel(state, state.fixAttempts.length > 0 ? state.fixAttempts[state.fixAttempts.length - 1].attempt : 0),
+                snippet: state.generatedSnippet,
+                createdAt: Date.now(),
+            }];
+            return {
+                ...state,
+                status: 'idle',
+                revisions,
+                activeRevision: revisions.length - 1,
+                refiningFrom: null,
+                chatMessages: lastRequest
+                    ? [...state.chatMessages, { role: 'assistant', content: `Applied as revision ${revisions.length}.` }]
+                    : state.chatMessages,
+            };
         case 'GENERATE_SNIPPET_FAILURE':
-            return { ...state, status: 'error', error: action.payload };
+            return { ...state, ...restoreRefinedSnippet(state), status: 'error', error: action.payload };
+        case 'RESTORE_REVISION':
+            const revision = state.revisions[action.payload];
+            if (!revision) return state;
+            return { ...state, activeRevision: action.payload, generatedSnippet: revision.snippet, editedSnippet: revision.snippet };
         case 'EDIT_SNIPPET':
             return { ...state, editedSnippet: action.payload };
         case 'INSERT_SNIPPET_START':
@@ -74,6 +165,9 @@ function modalReducer(state: ModalState, action: ModalAction): ModalState {
             return { ...state, status: 'success' };
         case 'INSERT_SNIPPET_FAILURE':
             return { ...state, status: 'error', error: action.payload };
+        case 'OPERATION_CANCELLED':
+            // Keep whatever ideas or partial code already arrived, except for refinements.
+            return { ...state, ...restoreRefinedSnippet(state), status: 'idle' };
         default:
             return state;
     }
@@ -114,48 +208,31 @@ const SkeletonIdeaCard: React.FC = () => (
     </Card>
 );
 
-const hexToHsl = (hex: string): { h: number, s: number, l: number } | null => {
-    if (!hex || typeof hex !== 'string') return null;
-    let r = 0, g = 0, b = 0;
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    if(result){
-        r = parseInt(result[1], 16); g = parseInt(result[2], 16); b = parseInt(result[3], 16);
-    } else {
-        const shorthandResult = /^#?([a-f\d])([a-f\d])([a-f\d])$/i.exec(hex);
-        if(shorthandResult){
-            r = parseInt(shorthandResult[1] + shorthandResult[1], 16); g = parseInt(shorthandResult[2] + shorthandResult[2], 16); b = parseInt(shorthandResult[3] + shorthandResult[3], 16);
-        } else { return null; }
-    }
-    r /= 255; g /= 255; b /= 255;
-    const max = Math.max(r, g, b), min = Math.min(r, g, b);
-    let h = 0, s = 0, l = (max + min) / 2;
-    if (max !== min) {
-        const d = max - min;
-        s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-        switch (max) {
-            case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-            case g: h = (b - r) / d + 2; break;
-            case b: h = (r - g) / d + 4; break;
-        }
-        h /= 6;
-    }
-    return { h: Math.round(h * 360), s: Math.round(s * 100), l: Math.round(l * 100) };
-}
-
 interface ToolGenerationModalProps {
     post: WordPressPost;
     onClose: () => void;
 }
 
 const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post, onClose }) => {
-    const { state: globalState, insertSnippet } = useAppContext();
+    const { state: globalState, insertSnippet, recordUsage } = useAppContext();
     const [modalState, dispatch] = useReducer(modalReducer, initialState);
-    const { status, error, toolIdeas, selectedIdea, editedSnippet } = modalState;
+    const { status, error, toolIdeas, selectedIdea, editedSnippet, chatMessages, revisions, activeRevision, refiningFrom, fixAttempts } = modalState;
 
     const [loadingMessage, setLoadingMessage] = useState(loadingMessages[0]);
-    const [activeTab, setActiveTab] = useState<'code' | 'preview'>('code');
+    const [activeTab, setActiveTab] = useState<'code' | 'preview' | 'test'>('code');
     const [iframeSrcDoc, setIframeSrcDoc] = useState('');
     const [themeColor, setThemeColor] = useState('#3b82f6'); // Default blue
+    const [refineInput, setRefineInput] = useState('');
+    const [insertAt, setInsertAt] = useState(0); // Offset in the post content where the tool goes
+    const [embedMode, setEmbedMode] = useState<EmbedMode>(DEFAULT_EMBED_MODE);
+    const [allowErrors, setAllowErrors] = useState(false); // Insert despite analyzer errors
+    const [smokeReport, setSmokeReport] = useState<SmokeTestReport | null>(null);
+    const [isSmokeTesting, setIsSmokeTesting] = useState(false);
+    const [autoFixEnabled, setAutoFixEnabled] = useState(false);
+    const [maxFixAttempts, setMaxFixAttempts] = useState(DEFAULT_AUTO_FIX_ATTEMPTS);
+    const smokeTestControllerRef = useRef<AbortController | null>(null);
+    // The in-flight AI request (ideas or snippet stream), aborted on Stop or when the modal closes.
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     // SOTA Optimization: During streaming, do not debounce the preview update. 
     // This allows the preview to update in near real-time without thrashing the CPU,
@@ -167,46 +244,126 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
     const isInserting = status === 'inserting_snippet';
     const isLoading = isGeneratingIdeas || isStreaming || isInserting;
 
+    const cleanSnippet = useMemo(() => editedSnippet.replace(/```html/gi, '').replace(/```/g, ''), [editedSnippet]);
+    // The smoke test, the preview and insertion use the normalized code, so what was checked is what gets saved.
+    // The analyzer checks the markup as the model wrote it, since normalizing would repair a truncated document.
+    // A half-streamed snippet would only report noise.
+    const normalizedSnippet = useMemo(() => (isStreaming || !cleanSnippet.trim() ? '' : normalizeSnippet(cleanSnippet)), [cleanSnippet, isStreaming]);
+    const issues = useMemo(() => (normalizedSnippet ? checkSnippet(cleanSnippet, normalizedSnippet) : []), [cleanSnippet, normalizedSnippet]);
+    const debouncedNormalizedSnippet = useDebounce(normalizedSnippet, 300);
+    const isInsertBlocked = hasBlockingIssues(issues) && !allowErrors;
+
+    // An override covers the code that was reviewed, not later edits.
+    useEffect(() => setAllowErrors(false), [cleanSnippet]);
+
+    const runSmokeTestNow = async () => {
+        if (!normalizedSnippet) return;
+        smokeTestControllerRef.current?.abort();
+        const controller = new AbortController();
+        smokeTestControllerRef.current = controller;
+        setIsSmokeTesting(true);
+        try {
+            setSmokeReport(await runSmokeTest(normalizedSnippet, controller.signal));
+        } catch (e: any) {
+            if (!aiService.isAbortError(e)) console.error('Smoke test failed to run:', e);
+        } finally {
+            if (smokeTestControllerRef.current === controller) {
+                smokeTestControllerRef.current = null;
+                setIsSmokeTesting(false);
+            }
+        }
+    };
+
     const currentStage = useMemo(() => {
         if (status === 'success') return 'success';
         if (selectedIdea) return 'generate';
         return 'ideas';
     }, [status, selectedIdea]);
 
+    const startOperation = (): AbortSignal => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        return controller.signal;
+    };
+
+    const stopOperation = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        dispatch({ type: 'OPERATION_CANCELLED' });
+    };
+
     const generateIdeas = async () => {
-        const { selectedProvider, apiKeys, openRouterModel } = globalState;
-        const model = selectedProvider === 'openrouter' ? openRouterModel : AI_PROVIDERS[selectedProvider].defaultModel;
+        const { selectedProvider, providerModels } = globalState;
+        const signal = startOperation();
         dispatch({ type: 'GET_IDEAS_START' });
         try {
-            const ideas = await aiService.generateToolIdeas(apiKeys[selectedProvider], selectedProvider, post, model);
+            const ideas = await aiService.generateToolIdeas(getProviderCredentials(globalState, selectedProvider), selectedProvider, post, providerModels[selectedProvider].ideation, signal, recordUsage);
+            if (signal.aborted) return;
             dispatch({ type: 'GET_IDEAS_SUCCESS', payload: ideas });
         } catch (e: any) {
+            if (signal.aborted) return;
             dispatch({ type: 'GET_IDEAS_FAILURE', payload: e.message || 'Failed to generate ideas.' });
         }
     };
 
     const generateSnippet = async () => {
         if (!selectedIdea) return;
-        const { selectedProvider, apiKeys, openRouterModel } = globalState;
-        const model = selectedProvider === 'openrouter' ? openRouterModel : AI_PROVIDERS[selectedProvider].defaultModel;
+        const { selectedProvider, providerModels } = globalState;
+        const signal = startOperation();
         dispatch({ type: 'GENERATE_SNIPPET_START' });
         try {
-            const stream = await aiService.generateSnippet(apiKeys[selectedProvider], selectedProvider, post, selectedIdea, model);
+            const autoFix: aiService.AutoFixOptions | undefined = autoFixEnabled ? {
+                maxAttempts: maxFixAttempts,
+                check: findSnippetProblems,
+                onAttempt: (attempt) => dispatch({ type: 'AUTO_FIX_PROGRESS', payload: attempt }),
+            } : undefined;
+            const stream = await aiService.generateSnippet(
+                getProviderCredentials(globalState, selectedProvider), selectedProvider, post, selectedIdea,
+                providerModels[selectedProvider].code, signal, recordUsage, autoFix
+            );
             for await (const chunk of stream) {
+                if (signal.aborted) return;
                 dispatch({ type: 'GENERATE_SNIPPET_STREAM', payload: chunk });
             }
             dispatch({ type: 'GENERATE_SNIPPET_END' });
         } catch (e: any) {
+            if (signal.aborted) return;
             dispatch({ type: 'GENERATE_SNIPPET_FAILURE', payload: e.message || 'Failed to generate snippet.' });
         }
     };
+
+    const refineSnippet = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const instruction = refineInput.trim();
+        if (!instruction || !editedSnippet) return;
+        const { selectedProvider, providerModels } = globalState;
+        const signal = startOperation();
+        // Send the code as it is now, including any manual edits made since the last revision.
+        const currentSnippet = editedSnippet.replace(/```html/gi, '').replace(/```/g, '');
+        dispatch({ type: 'REFINE_SNIPPET_START', payload: instruction });
+        setRefineInput('');
+        try {
+            const stream = await aiService.refineSnippet(
+                getProviderCredentials(globalState, selectedProvider), selectedProvider, post, currentSnippet,
+                chatMessages, instruction, providerModels[selectedProvider].code, signal, recordUsage
+            );
+            for await (const chunk of stream) {
+                if (signal.aborted) return;
+                dispatch({ type: 'GENERATE_SNIPPET_STREAM', payload: chunk });
+            }
+            dispatch({ type: 'GENERATE_SNIPPET_END' });
+        } catch (e: any) {
+            if (signal.aborted) return;
+            dispatch({ type: 'GENERATE_SNIPPET_FAILURE', payload: e.message || 'Failed to refine snippet.' });
+        }
+    };
     
     const handleInsert = async () => {
-        if (!selectedIdea) return;
+        if (!selectedIdea || !normalizedSnippet || isInsertBlocked) return;
         dispatch({ type: 'INSERT_SNIPPET_START' });
         try {
-            const cleanCode = editedSnippet.replace(/```html/gi, '').replace(/```/g, '');
-            await insertSnippet(post, cleanCode, selectedIdea);
+            await insertSnippet(post, normalizedSnippet, selectedIdea, insertAt, embedMode);
             dispatch({ type: 'INSERT_SNIPPET_SUCCESS' });
         } catch (e: any) {
             dispatch({ type: 'INSERT_SNIPPET_FAILURE', payload: e.message || 'Failed to insert snippet.' });
@@ -217,6 +374,22 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
         generateIdeas();
     }, [post.id]);
 
+    // Stop any running request when the modal unmounts so nothing streams into a closed modal.
+    useEffect(() => () => {
+        abortControllerRef.current?.abort();
+        smokeTestControllerRef.current?.abort();
+    }, []);
+
+    // Re-test the tool once it has finished streaming and whenever the code settles after an edit.
+    useEffect(() => {
+        if (isStreaming) {
+            smokeTestControllerRef.current?.abort();
+            setSmokeReport(null);
+        } else if (debouncedSnippet) {
+            runSmokeTestNow();
+        }
+    }, [debouncedSnippet, isStreaming]);
+
     useEffect(() => {
         if (selectedIdea) {
             generateSnippet();
@@ -236,93 +409,13 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
         if (isStreaming && !editedSnippet) setActiveTab('code'); 
     }, [isStreaming]);
 
+    // While streaming there is only the raw code; once it is done, preview the code that will be saved.
     useEffect(() => {
-        if (debouncedSnippet) {
-            let raw = debouncedSnippet;
-            raw = raw.replace(/```html/gi, '').replace(/```/g, '');
-
-            let themeStyles = '';
-            const hsl = hexToHsl(themeColor);
-            if (hsl) {
-                const baseHsl = `${hsl.h} ${hsl.s}% ${hsl.l}%`;
-                const hoverHsl = `${hsl.h} ${hsl.s}% ${Math.max(0, hsl.l - 8)}%`;
-                // Map to common variable names the AI might use
-                themeStyles = `
-                    :root {
-                        --accent-color: hsl(${baseHsl}) !important;
-                        --primary: hsl(${baseHsl}) !important;
-                        --primary-color: hsl(${baseHsl}) !important;
-                        --accent-color-hover: hsl(${hoverHsl}) !important;
-                        --hover: hsl(${hoverHsl}) !important;
-                    }
-                `;
-            }
-
-            const bgColor = globalState.theme === 'dark' ? '#0f172a' : '#ffffff';
-            const textColor = globalState.theme === 'dark' ? '#f1f5f9' : '#1e293b';
-
-            const overrides = `
-                <style id="sota-preview-overrides">
-                    ${themeStyles}
-                    ::-webkit-scrollbar { width: 8px; }
-                    ::-webkit-scrollbar-track { background: transparent; }
-                    ::-webkit-scrollbar-thumb { background: #cbd5e1; border-radius: 4px; }
-                    .dark ::-webkit-scrollbar-thumb { background: #475569; }
-                    
-                    html, body { 
-                        background-color: ${bgColor} !important; 
-                        color: ${textColor};
-                        min-height: 100vh;
-                        margin: 0;
-                        padding: 0;
-                        transition: background-color 0.3s, color 0.3s;
-                        font-family: ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
-                    }
-                    body { box-sizing: border-box; }
-                </style>
-            `;
-
-            let finalHtml = '';
-            const hasDoctype = /<!DOCTYPE html>/i.test(raw);
-            const hasHead = /<head[^>]*>/i.test(raw);
-            const hasBody = /<body[^>]*>/i.test(raw);
-            
-            if (hasDoctype || hasHead || hasBody) {
-                finalHtml = raw;
-                if (globalState.theme === 'dark') {
-                    if (/<html[^>]*class=["']/.test(finalHtml)) {
-                        finalHtml = finalHtml.replace(/(<html[^>]*class=["'])/i, '$1dark ');
-                    } else if (/<html/i.test(finalHtml)) {
-                        finalHtml = finalHtml.replace(/<html/i, '<html class="dark"');
-                    } else {
-                        finalHtml = `<html class="dark">${finalHtml}</html>`;
-                    }
-                }
-                if (/<\/head>/i.test(finalHtml)) {
-                    finalHtml = finalHtml.replace(/<\/head>/i, `${overrides}</head>`);
-                } else if (/<body/i.test(finalHtml)) {
-                    finalHtml = finalHtml.replace(/<body([^>]*)>/i, `<body$1>${overrides}`);
-                } else {
-                    finalHtml = overrides + finalHtml;
-                }
-            } else {
-                finalHtml = `
-                    <!DOCTYPE html>
-                    <html class="${globalState.theme}">
-                    <head>
-                        <meta charset="UTF-8">
-                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                        ${overrides}
-                        <style>body { padding: 1.5rem; }</style>
-                    </head>
-                    <body>${raw}</body>
-                    </html>
-                `;
-            }
-            
-            setIframeSrcDoc(finalHtml);
+        const previewSnippet = isStreaming ? debouncedSnippet : debouncedNormalizedSnippet;
+        if (previewSnippet) {
+            setIframeSrcDoc(buildPreviewDocument(previewSnippet, globalState.theme, themeColor));
         }
-    }, [debouncedSnippet, themeColor, globalState.theme]);
+    }, [debouncedSnippet, debouncedNormalizedSnippet, isStreaming, themeColor, globalState.theme]);
     
     const TabButton: React.FC<{label: string; isActive: boolean; onClick: () => void; icon: React.ReactNode; disabled?: boolean;}> = ({ label, isActive, onClick, icon, disabled }) => (
         <button type="button" onClick={onClick} disabled={disabled} className={`flex items-center gap-2 px-3 py-2 sm:px-4 text-sm font-semibold rounded-t-md transition-colors border-b-2 ${ isActive ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400' : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-800 dark:hover:text-slate-200 hover:bg-slate-200/50 dark:hover:bg-slate-700/50' } disabled:opacity-50 disabled:cursor-not-allowed`} aria-selected={isActive}>
@@ -330,10 +423,31 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
         </button>
     );
 
+    const renderAutoFixToggle = () => (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={autoFixEnabled} onChange={(e) => setAutoFixEnabled(e.target.checked)} disabled={isStreaming} className="rounded border-slate-300 dark:border-slate-600" />
+                Auto-fix failing checks
+            </label>
+            <select
+                value={maxFixAttempts}
+                onChange={(e) => setMaxFixAttempts(Number(e.target.value))}
+                disabled={!autoFixEnabled || isStreaming}
+                className="rounded-md border-0 py-1 pl-2 pr-7 bg-white/80 dark:bg-slate-900/70 text-sm text-slate-900 dark:text-slate-100 ring-1 ring-inset ring-slate-300 dark:ring-slate-700 disabled:opacity-50"
+                aria-label="Maximum auto-fix attempts"
+            >
+                {Array.from({ length: MAX_AUTO_FIX_ATTEMPTS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>up to {n} {n === 1 ? 'fix' : 'fixes'}</option>
+                ))}
+            </select>
+        </div>
+    );
+
     const renderIdeasStage = () => (
         <>
             <h2 className="text-xl sm:text-2xl font-bold mb-4 text-slate-800 dark:text-slate-100">1. Choose a "Linkable Asset" Idea</h2>
-            <p className="text-slate-600 dark:text-slate-400 mb-6">Select the tool with the highest potential to answer user questions and keep them on your page.</p>
+            <p className="text-slate-600 dark:text-slate-400 mb-3">Select the tool with the highest potential to answer user questions and keep them on your page.</p>
+            <div className="mb-6">{renderAutoFixToggle()}</div>
             {isGeneratingIdeas ? (
                  <div className="text-center">
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -342,6 +456,11 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
                         <SkeletonIdeaCard/>
                     </div>
                     <p className="mt-4 text-sm text-slate-500 dark:text-slate-400 animate-pulse">{loadingMessage}</p>
+                    <Button onClick={stopOperation} variant="secondary" className="mt-4">Stop</Button>
+                </div>
+            ) : toolIdeas.length === 0 ? (
+                <div className="text-center py-8">
+                    <Button onClick={generateIdeas} variant="secondary">Suggest Ideas</Button>
                 </div>
             ) : (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -370,11 +489,87 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
                     </div>
                 </Card>
 
+                <Card className="p-4">
+                    <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">Refine with AI</h4>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Describe a change, e.g. "add a currency selector".</p>
+                    {chatMessages.length > 0 && (
+                        <div className="max-h-40 overflow-y-auto space-y-2 mb-3 text-sm">
+                            {chatMessages.map((message, index) => (
+                                <p
+                                    key={index}
+                                    className={`px-3 py-1.5 rounded-lg ${message.role === 'user' ? 'bg-blue-50 dark:bg-blue-900/40 text-slate-800 dark:text-slate-100 ml-6' : 'bg-slate-100 dark:bg-slate-900/50 text-slate-600 dark:text-slate-400 mr-6'}`}
+                                >
+                                    {message.content}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    <form onSubmit={refineSnippet} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={refineInput}
+                            onChange={(e) => setRefineInput(e.target.value)}
+                            placeholder={refiningFrom !== null ? 'Applying your change...' : 'Make the chart a bar chart'}
+                            disabled={isLoading || !editedSnippet}
+                            className="flex-grow min-w-0 rounded-md border-0 py-1.5 px-3 bg-white/80 dark:bg-slate-900/70 text-sm text-slate-900 dark:text-slate-100 shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 disabled:opacity-50"
+                            aria-label="Describe a change to the tool"
+                        />
+                        <Button type="submit" variant="secondary" className="!py-1.5 !px-3 !text-sm" disabled={isLoading || !refineInput.trim() || !editedSnippet}>
+                            Send
+                        </Button>
+                    </form>
+                    {revisions.length > 1 && (
+                        <div className="mt-3">
+                            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Revisions</p>
+                            <ol className="max-h-32 overflow-y-auto space-y-1 text-xs">
+                                {revisions.map((revision, index) => (
+                                    <li key={revision.createdAt + index}>
+                                        <button
+                                            type="button"
+                                            onClick={() => dispatch({ type: 'RESTORE_REVISION', payload: index })}
+                                            disabled={isLoading}
+                                            className={`w-full text-left truncate px-2 py-1 rounded transition-colors disabled:opacity-50 ${index === activeRevision ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200/60 dark:hover:bg-slate-700/60'}`}
+                                            title={`${revision.label} (${new Date(revision.createdAt).toLocaleTimeString()})`}
+                                        >
+                                            v{index + 1} · {revision.label}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                </Card>
+
+                <Card className="p-4">
+                    <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">Auto-fix</h4>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Sends analyzer errors and smoke test failures back to the model until the tool passes. Applies to the next generation.</p>
+                    {renderAutoFixToggle()}
+                    {fixAttempts.length > 0 && <div className="mt-3"><FixAttemptsList attempts={fixAttempts} /></div>}
+                </Card>
+
+                <InsertionPointPicker
+                    content={getEditableContent(post)}
+                    topic={selectedIdea ? `${selectedIdea.title} ${selectedIdea.description}` : ''}
+                    value={insertAt}
+                    onChange={setInsertAt}
+                    disabled={isInserting}
+                />
+
+                <EmbedModePicker value={embedMode} onChange={setEmbedMode} disabled={isInserting} />
+
+                {normalizedSnippet && (
+                    <SnippetReport issues={issues} allowErrors={allowErrors} onAllowErrorsChange={setAllowErrors} disabled={isInserting} />
+                )}
+
                 <div className="space-y-3 mt-auto">
-                     <Button onClick={handleInsert} disabled={isLoading || !editedSnippet} className="w-full" size="large">
+                     <Button onClick={handleInsert} disabled={isLoading || !normalizedSnippet || isInsertBlocked} className="w-full" size="large">
                         {isInserting ? <><Spinner /> Inserting...</> : 'Insert into Post'}
                      </Button>
-                     <Button onClick={generateSnippet} className="w-full" variant="secondary" disabled={isLoading}>Regenerate Tool</Button>
+                     {isStreaming ? (
+                        <Button onClick={stopOperation} className="w-full" variant="secondary">Stop Generating</Button>
+                     ) : (
+                        <Button onClick={generateSnippet} className="w-full" variant="secondary" disabled={isLoading}>Regenerate Tool</Button>
+                     )}
                 </div>
             </div>
 
@@ -382,6 +577,14 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
                 <div className="flex items-center border-b border-slate-200 dark:border-slate-700">
                   <TabButton label="Code" isActive={activeTab === 'code'} onClick={() => setActiveTab('code')} icon={<CodeBracketIcon className="w-5 h-5"/>} />
                   <TabButton label="Live Preview" isActive={activeTab === 'preview'} onClick={() => setActiveTab('preview')} icon={<EyeIcon className="w-5 h-5"/>} />
+                  <TabButton
+                    label="Smoke Test"
+                    isActive={activeTab === 'test'}
+                    onClick={() => setActiveTab('test')}
+                    icon={smokeReport && !smokeReport.passed
+                        ? <XCircleIcon className="w-5 h-5 text-red-500"/>
+                        : <CheckIcon className={`w-5 h-5 ${smokeReport ? 'text-green-500' : ''}`}/>}
+                  />
                 </div>
                 <div className="flex-grow bg-slate-100 dark:bg-slate-900/50 rounded-b-lg p-1 border border-t-0 border-slate-200 dark:border-slate-700 relative min-h-[450px]">
                     {activeTab === 'code' ? (
@@ -393,6 +596,8 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
                             disabled={isStreaming}
                             aria-label="HTML Snippet Code Editor"
                         />
+                    ) : activeTab === 'test' ? (
+                        <SmokeTestPanel report={smokeReport} isRunning={isSmokeTesting} onRun={runSmokeTestNow} disabled={!normalizedSnippet} />
                     ) : (
                         <iframe 
                             key={iframeSrcDoc} // Force re-render on content change
@@ -405,7 +610,7 @@ const ToolGenerationModalComponent: React.FC<ToolGenerationModalProps> = ({ post
                      {isStreaming && (
                         <div className="absolute bottom-4 right-4 flex items-center gap-2 text-xs text-blue-500 bg-white/90 dark:bg-slate-800/90 px-3 py-1.5 rounded-full shadow-lg backdrop-blur-sm border border-blue-200 dark:border-blue-900">
                             <Spinner />
-                            <span>AI is coding...</span>
+                            <span>{fixAttempts[fixAttempts.length - 1]?.status === 'checking' ? 'Checking the tool...' : 'AI is coding...'}</span>
                         </div>
                     )}
                 </div>
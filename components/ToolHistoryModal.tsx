@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { ToolVersion, WordPressPost } from '../types';
+import { AI_PROVIDERS } from '../constants';
+import { Button } from './common/Button';
+import { Spinner } from './common/Spinner';
+import { CodeDiff } from './common/CodeDiff';
+import { XCircleIcon } from './icons/XCircleIcon';
+
+interface ToolHistoryModalProps {
+    post: WordPressPost;
+    onClose: () => void;
+}
+
+const describeProducer = (version: ToolVersion): string => {
+    if (!version.model) return 'Unknown model';
+    const providerName = version.provider ? AI_PROVIDERS[version.provider]?.name : null;
+    return providerName ? `${version.model} (${providerName})` : version.model;
+};
+
+/**
+ * Lists every saved version of a post's tool, diffs a chosen version against the live one,
+ * and restores it with one click.
+ */
+export const ToolHistoryModal: React.FC<ToolHistoryModalProps> = ({ post, onClose }) => {
+    const { fetchToolVersions, restoreToolVersion } = useAppContext();
+    const [versions, setVersions] = useState<ToolVersion[]>([]);
+    const [selectedIndex, setSelectedIndex] = useState(-1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const currentIndex = versions.length - 1;
+    const selected = versions[selectedIndex];
+
+    useEffect(() => {
+        if (!post.toolId) return;
+        setIsLoading(true);
+        fetchToolVersions(post.toolId)
+            .then(history => {
+                setVersions(history);
+                // Start on the version before the live one: the usual rollback target.
+                setSelectedIndex(Math.max(0, history.length - 2));
+            })
+            .catch((e: any) => setError(e.message || 'Failed to load version history.'))
+            .finally(() => setIsLoading(false));
+    }, [post.toolId]);
+
+    const handleRestore = async () => {
+        if (!post.toolId || !selected) return;
+        setIsRestoring(true);
+        setError(null);
+        try {
+            const history = await restoreToolVersion(post.toolId, selected, selectedIndex + 1);
+            setVersions(history);
+            setSelectedIndex(history.length - 1);
+        } catch (e: any) {
+            setError(e.message || 'Failed to restore version.');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-40 flex items-center justify-center p-4 animate-fade-in" aria-labelledby="history-modal-title" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-6xl p-6 sm:p-8 border border-slate-200 dark:border-slate-700 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <header className="flex-shrink-0 flex justify-between items-start mb-4">
+                    <div>
+                        <h2 id="history-modal-title" className="text-lg sm:text-xl font-bold text-slate-900 dark:text-slate-100">Tool Version History</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400" dangerouslySetInnerHTML={{ __html: `For: "${post.title.rendered}"` }} />
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+                        <XCircleIcon className="w-8 h-8"/>
+                    </button>
+                </header>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-16 text-slate-500"><Spinner /> <span className="ml-2">Loading versions...</span></div>
+                ) : versions.length === 0 ? (
+                    <p className="text-center py-16 text-slate-500 dark:text-slate-400">No versions found for this tool.</p>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-grow min-h-0">
+                        <ol className="lg:col-span-1 space-y-2 overflow-y-auto pr-1">
+                            {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+                                <li key={index}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelectedIndex(index)}
+                                        className={`w-full text-left p-3 rounded-lg border transition-colors ${index === selectedIndex ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-semibold text-slate-800 dark:text-slate-100">v{index + 1} · {version.note}</span>
+                                            {index === currentIndex && <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/60 text-green-700 dark:text-green-300">Live</span>}
+                                        </div>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                            {version.savedAt ? new Date(version.savedAt).toLocaleString() : 'Date unknown'} · {describeProducer(version)}
+                                        </p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+
+                        <div className="lg:col-span-2 flex flex-col min-h-[400px]">
+                            <div className="flex items-center justify-between gap-4 mb-2">
+                                <p className="text-sm text-slate-600 dark:text-slate-300">
+                                    {selectedIndex === currentIndex ? 'This is the live version.' : `Changes from v${selectedIndex + 1} to the live v${currentIndex + 1}:`}
+                                </p>
+                                <Button onClick={handleRestore} disabled={isRestoring || selectedIndex === currentIndex} className="!text-sm !py-1.5 flex-shrink-0">
+                                    {isRestoring ? <><Spinner /> Restoring...</> : `Restore v${selectedIndex + 1}`}
+                                </Button>
+                            </div>
+                            {selected && (
+                                <CodeDiff oldCode={selected.snippet} newCode={versions[currentIndex].snippet} className="flex-grow min-h-0" />
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="mt-4 bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-md text-sm" role="alert">
+                        <strong className="font-bold">An Error Occurred: </strong>
+                        <span>{error}</span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ToolHistoryModal;
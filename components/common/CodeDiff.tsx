@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { DiffLine, diffLines, summarizeDiff } from '../../services/diffService';
+
+interface CodeDiffProps {
+  oldCode: string;
+  newCode: string;
+  // 'unified' interleaves removed and added lines; 'split' shows old and new side by side.
+  mode?: 'unified' | 'split';
+  className?: string;
+}
+
+const lineClasses = {
+  same: 'text-slate-300',
+  added: 'bg-green-900/40 text-green-200',
+  removed: 'bg-red-900/40 text-red-200',
+};
+
+const linePrefix = { same: ' ', added: '+', removed: '-' };
+
+// Pairs each run of removed lines with the run of added lines after it, so changes line up in split view.
+const toSplitRows = (lines: DiffLine[]): [DiffLine | null, DiffLine | null][] => {
+  const rows: [DiffLine | null, DiffLine | null][] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'same') {
+      rows.push([lines[i], lines[i]]);
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push([removed[k] ?? null, added[k] ?? null]);
+    }
+  }
+  return rows;
+};
+
+const SplitCell: React.FC<{ line: DiffLine | null; side: 'old' | 'new' }> = ({ line, side }) => {
+  if (!line) return <td colSpan={2} className="bg-slate-800/40" />;
+  const number = side === 'old' ? line.oldLine : line.newLine;
+  return (
+    <>
+      <td className={`select-none text-right pr-2 pl-3 text-slate-500 w-10 ${lineClasses[line.type]}`}>{number}</td>
+      <td className={`whitespace-pre pr-4 w-1/2 ${lineClasses[line.type]}`}>{line.text}</td>
+    </>
+  );
+};
+
+/**
+ * A line-numbered diff of two code strings.
+ */
+export const CodeDiff: React.FC<CodeDiffProps> = ({ oldCode, newCode, mode = 'unified', className = '' }) => {
+  const lines = useMemo(() => diffLines(oldCode, newCode), [oldCode, newCode]);
+  const { added, removed } = useMemo(() => summarizeDiff(lines), [lines]);
+  const splitRows = useMemo(() => (mode === 'split' ? toSplitRows(lines) : []), [lines, mode]);
+
+  return (
+    <div className={`flex flex-col bg-slate-900 dark:bg-black/50 rounded-md overflow-hidden ${className}`}>
+      <div className="flex-shrink-0 px-4 py-2 text-xs font-mono border-b border-slate-700/50">
+        <span className="text-green-400">+{added}</span> <span className="text-red-400">−{removed}</span>
+        {added === 0 && removed === 0 && <span className="ml-2 text-slate-400">No changes</span>}
+      </div>
+      <div className="flex-grow overflow-auto">
+        <table className="w-full text-xs font-mono border-collapse">
+          <tbody>
+            {mode === 'split'
+              ? splitRows.map(([oldLine, newLine], index) => (
+                  <tr key={index}>
+                    <SplitCell line={oldLine} side="old" />
+                    <SplitCell line={newLine} side="new" />
+                  </tr>
+                ))
+              : lines.map((line, index) => (
+                  <tr key={index} className={lineClasses[line.type]}>
+                    <td className="select-none text-right pr-2 pl-3 text-slate-500 w-10">{line.oldLine ?? ''}</td>
+                    <td className="select-none text-right pr-2 text-slate-500 w-10">{line.newLine ?? ''}</td>
+                    <td className="select-none pr-2 w-4">{linePrefix[line.type]}</td>
+                    <td className="whitespace-pre pr-4">{line.text}</td>
+                  </tr>
+                ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
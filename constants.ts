@@ -1,25 +1,181 @@
-import { AiProvider } from './types';
+import { AiProvider, AiTask, EmbedMode, PostQuery, PostTypeInfo, ScoringProfile, SiteScoringProfiles, TaskModels, TokenUsage } from './types';
+import { mapProviders } from './services/providers/registry';
+import { ApiKeyMode } from './services/providers/types';
 
-export const AI_PROVIDERS: Record<AiProvider, { name: string, defaultModel: string, requiresModelField?: boolean }> = {
-  [AiProvider.Gemini]: {
-    name: 'Google Gemini',
-    defaultModel: 'gemini-3-flash-preview',
+export interface AiProviderDetails {
+  name: string;
+  defaultModels: TaskModels;
+  suggestedModels: string[];
+  requiresBaseUrl?: boolean;
+  apiKeyMode: ApiKeyMode;
+}
+
+// Derived from the provider registry so a new backend only needs its own adapter module.
+export const AI_PROVIDERS: Record<AiProvider, AiProviderDetails> = mapProviders(adapter => ({
+  name: adapter.name,
+  defaultModels: {
+    scoring: adapter.taskModels?.scoring ?? adapter.defaultModel,
+    ideation: adapter.taskModels?.ideation ?? adapter.defaultModel,
+    code: adapter.taskModels?.code ?? adapter.defaultModel,
+  },
+  suggestedModels: adapter.suggestedModels ?? [],
+  requiresBaseUrl: adapter.requiresBaseUrl,
+  apiKeyMode: adapter.apiKeyMode ?? 'required',
+}));
+
+// Estimated USD per million tokens. Keys are model ID prefixes, so dated snapshots
+// (e.g. claude-3-haiku-20240307) and OpenRouter's vendor/model IDs match too.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-3-pro': { input: 2, output: 12 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'mistral-7b-instruct': { input: 0.03, output: 0.05 },
+};
+
+/**
+ * Estimates the USD cost of a call from MODEL_PRICES.
+ * @returns The cost, 0 for self-hosted and mock models, or null when the model's price is unknown.
+ */
+export const estimateCost = (provider: AiProvider, model: string, usage: TokenUsage): number | null => {
+  if (provider === AiProvider.Custom || provider === AiProvider.Mock) return 0;
+  const modelName = model.split('/').pop() ?? model;
+  // Longest prefix wins, so 'gpt-4o-mini' is not priced as 'gpt-4o'.
+  const key = Object.keys(MODEL_PRICES)
+    .filter(prefix => modelName.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+  const price = MODEL_PRICES[key];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+export const AI_TASKS: Record<AiTask, { label: string; description: string }> = {
+  scoring: { label: 'Scoring Model', description: 'Rates posts for tool potential. Runs in large batches, so a fast, cheap model works best.' },
+  ideation: { label: 'Ideation Model', description: 'Suggests tool ideas for a post.' },
+  code: { label: 'Code Model', description: 'Writes and refreshes the HTML tools. Use your strongest model here.' },
+};
+
+/**
+ * The WordPress connector version this app requires (see SetupInstructions.tsx).
+ * The connector reports its version at /wp-json/contentforge/v1/status; older sites are asked to update.
+ */
+export const CONNECTOR_VERSION = '3.4';
+
+// Stored per tool in the `_cf_tool_embed_mode` meta. Tools saved before connector v3.4 render inline.
+export const EMBED_MODES: Record<EmbedMode, { label: string; description: string }> = {
+  shadow: { label: 'Shadow DOM', description: "Part of the page, but the tool's styles and the theme's can't affect each other." },
+  iframe: { label: 'Sandboxed iframe', description: 'A separate document that resizes to fit. The strongest isolation; the tool has no access to the page.' },
+  inline: { label: 'Inline', description: 'Added straight into the post. Styles can leak between the tool and the theme.' },
+};
+
+export const DEFAULT_EMBED_MODE: EmbedMode = 'shadow';
+
+// Used when the site's post types can't be listed (e.g. /wp/v2/types is blocked).
+export const DEFAULT_POST_TYPES: PostTypeInfo[] = [
+  { slug: 'post', name: 'Posts', restBase: 'posts', taxonomies: ['category', 'post_tag'] },
+  { slug: 'page', name: 'Pages', restBase: 'pages', taxonomies: [] },
+];
+
+export const DEFAULT_POST_QUERY: PostQuery = {
+  restBase: 'posts',
+  status: 'publish',
+  search: '',
+  categories: [],
+  tags: [],
+  after: '',
+  before: '',
+  orderby: 'date',
+};
+
+/**
+ * Starting rubrics for common niches. Sites get their own editable copies (see scoringProfileService.ts).
+ * 'general' is the rubric the app always used.
+ */
+export const SCORING_PROFILE_PRESETS: ScoringProfile[] = [
+  {
+    id: 'general',
+    name: 'General',
+    criteria: [
+      { name: 'Interactive intent', weight: 50, description: 'High-intent "How-to", "Calculator" and "Visualizer" topics a reader wants to act on.' },
+      { name: 'Structured data', weight: 30, description: 'Numeric tables, formulas, step-by-step sections and many prices or percentages in the body.' },
+      { name: 'Lasting utility', weight: 20, description: 'Still useful in a year. News, updates and personal stories score 0-20.' },
+    ],
+    examples: [
+      { title: 'How to Calculate Your Monthly Budget', score: 95 },
+      { title: 'Our Team Retreat Recap', score: 10 },
+    ],
+    targetToolTypes: ['calculator', 'visualizer', 'checklist', 'quiz'],
+  },
+  {
+    id: 'finance',
+    name: 'Finance',
+    criteria: [
+      { name: 'Money math', weight: 45, description: 'Loans, interest, savings, taxes or returns the reader could compute for their own numbers.' },
+      { name: 'Comparisons', weight: 30, description: 'Rates, fees or products compared side by side, especially in tables.' },
+      { name: 'Decision support', weight: 25, description: 'Helps the reader choose between options. Market news and opinion score low.' },
+    ],
+    examples: [
+      { title: 'How Much House Can I Afford?', score: 98 },
+      { title: 'Roth vs Traditional IRA', score: 85 },
+      { title: 'Markets Close Higher on Fed Comments', score: 5 },
+    ],
+    targetToolTypes: ['loan calculator', 'savings projection', 'comparison table', 'tax estimator'],
   },
-  [AiProvider.OpenAI]: {
-    name: 'OpenAI',
-    defaultModel: 'gpt-4o',
+  {
+    id: 'recipes',
+    name: 'Recipes',
+    criteria: [
+      { name: 'Scalable quantities', weight: 40, description: 'Ingredient lists with amounts a reader could scale by servings or convert between units.' },
+      { name: 'Nutrition and timing', weight: 35, description: 'Calories, macros, cooking times or temperatures a tool could compute or schedule.' },
+      { name: 'Substitutions', weight: 25, description: 'Swaps for diets or allergies. Restaurant reviews and kitchen stories score low.' },
+    ],
+    examples: [
+      { title: 'Classic Sourdough Bread (Step-by-Step)', score: 92 },
+      { title: 'Turkey Roasting Times by Weight', score: 96 },
+      { title: 'My Trip to a Tuscan Farmhouse', score: 8 },
+    ],
+    targetToolTypes: ['serving scaler', 'unit converter', 'nutrition calculator', 'cooking timer'],
   },
-  [AiProvider.Anthropic]: {
-    name: 'Anthropic (Claude)',
-    defaultModel: 'claude-3-haiku-20240307',
+  {
+    id: 'fitness',
+    name: 'Fitness',
+    criteria: [
+      { name: 'Personal metrics', weight: 45, description: 'Body weight, heart rate, pace or one-rep max a reader could plug in for personalised numbers.' },
+      { name: 'Programs and plans', weight: 35, description: 'Workout plans, progressions or schedules that could be generated or tracked.' },
+      { name: 'Actionable guidance', weight: 20, description: 'Concrete targets over motivation. Athlete news and gear unboxings score low.' },
+    ],
+    examples: [
+      { title: 'How to Calculate Your Heart Rate Zones', score: 97 },
+      { title: '12-Week Beginner Strength Program', score: 88 },
+      { title: 'Unboxing the New Running Shoes', score: 12 },
+    ],
+    targetToolTypes: ['calorie calculator', 'training plan generator', 'pace calculator', 'progress tracker'],
   },
-  [AiProvider.OpenRouter]: {
-    name: 'OpenRouter',
-    defaultModel: 'mistralai/mistral-7b-instruct',
-    requiresModelField: true,
-  }
+];
+
+export const DEFAULT_SCORING_PROFILES: SiteScoringProfiles = {
+  profiles: SCORING_PROFILE_PRESETS,
+  activeProfileId: 'general',
 };
 
+// Posts a batch job generates for at the same time. AI calls are further limited by the request scheduler.
+export const BATCH_GENERATION_CONCURRENCY = 2;
+
+// Auto-fix: how many patched versions the model may try after a generation fails its checks.
+export const DEFAULT_AUTO_FIX_ATTEMPTS = 2;
+export const MAX_AUTO_FIX_ATTEMPTS = 5;
+
+// Prior snippets kept per tool in the `_cf_tool_versions` meta, oldest dropped first.
+export const MAX_TOOL_VERSIONS = 20;
+
 /**
  * A robust, case-insensitive regex to detect the shortcode and capture its ID.
  * Handles variations in whitespace and quote types (' " or none).
@@ -27,6 +183,12 @@ export const AI_PROVIDERS: Record<AiProvider, { name: string, defaultModel: stri
  */
 export const SHORTCODE_DETECTION_REGEX = /\[\s*contentforge_tool\s+id\s*=\s*["']?(\d+)["']?\s*.*?\]/i;
 
+/**
+ * Detects the connector's `contentforge/tool` block and captures its tool ID,
+ * e.g. <!-- wp:contentforge/tool {"toolId":123} /-->
+ */
+export const TOOL_BLOCK_DETECTION_REGEX = /<!--\s+wp:contentforge\/tool\s+\{[^}]*"toolId"\s*:\s*(\d+)/i;
+
 const SHORTCODE_BASE_REGEX_STRING = `\\[\\s*contentforge_tool\\s+id\\s*=\\s*["']?\\d+["']?\\s*.*?\\]`;
 
 /**
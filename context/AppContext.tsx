@@ -1,12 +1,22 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode, Dispatch } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef, ReactNode, Dispatch } from 'react';
 import { 
     AppState, AiProvider, WordPressConfig, WordPressPost, ToolIdea, 
-    ApiKeys, Theme 
+    ApiKeys, Theme, AiTask, TaskModels, UsageRecord, ToolVersion, PendingRefresh, PostQuery, PostTypeInfo, TaxonomyTerm,
+    SiteScanCheckpoint, SiteScoringProfiles, BatchItem, AutoFixAttempt, EmbedMode
 } from '../types';
 import * as wordpressService from '../services/wordpressService';
 import * as aiService from '../services/aiService';
 import * as opportunityScoreCache from '../services/opportunityScoreCache'; // SOTA: Import the new cache service.
-import { AI_PROVIDERS, SHORTCODE_REMOVAL_REGEX } from '../constants';
+import * as siteScanService from '../services/siteScanService';
+import * as scoringProfileService from '../services/scoringProfileService';
+import { mapProviders } from '../services/providers/registry';
+import { ProviderCredentials } from '../services/providers/types';
+import { AI_PROVIDERS, BATCH_GENERATION_CONCURRENCY, DEFAULT_POST_QUERY, DEFAULT_POST_TYPES, DEFAULT_SCORING_PROFILES } from '../constants';
+import { insertToolAt } from '../services/insertionService';
+import { getEditableContent, removeToolShortcodes } from '../services/blockService';
+import { checkSnippet } from '../services/snippetQualityService';
+import { findSnippetProblems, runSmokeTest } from '../services/smokeTestService';
+import { normalizeSnippet } from '../services/embedService';
 
 // --- ACTION TYPES ---
 type Action =
@@ -14,31 +24,52 @@ type Action =
   | { type: 'SET_THEME'; payload: Theme }
   | { type: 'SET_PROVIDER'; payload: AiProvider }
   | { type: 'SET_API_KEY'; payload: { provider: AiProvider; key: string } }
-  | { type: 'SET_OPENROUTER_MODEL'; payload: string }
+  | { type: 'SET_PROVIDER_MODEL'; payload: { provider: AiProvider; task: AiTask; model: string } }
+  | { type: 'SET_PROVIDER_BASE_URL'; payload: { provider: AiProvider; baseUrl: string } }
   | { type: 'VALIDATE_API_KEY_START'; payload: AiProvider }
   | { type: 'VALIDATE_API_KEY_SUCCESS'; payload: AiProvider }
   | { type: 'VALIDATE_API_KEY_FAILURE'; payload: { provider: AiProvider } }
   | { type: 'CONNECT_START' }
-  | { type: 'CONNECT_SUCCESS'; payload: { config: WordPressConfig; posts: WordPressPost[], totalPages: number } }
+  | { type: 'CONNECT_SUCCESS'; payload: { config: WordPressConfig; posts: WordPressPost[], totalPages: number, postTypes: PostTypeInfo[], categories: TaxonomyTerm[], tags: TaxonomyTerm[], siteScan: SiteScanCheckpoint | null, scoringProfiles: SiteScoringProfiles } }
   | { type: 'CONNECT_FAILURE'; payload: string }
   | { type: 'SETUP_REQUIRED'; payload: WordPressConfig }
   | { type: 'RESET' }
-  | { type: 'SET_POST_SEARCH_QUERY'; payload: string }
   | { type: 'SET_POST_SORT_ORDER'; payload: 'opportunity' | 'date' }
+  | { type: 'SET_POST_QUERY_START'; payload: PostQuery }
+  | { type: 'SET_POST_QUERY_SUCCESS'; payload: { posts: WordPressPost[]; totalPages: number } }
+  | { type: 'SET_POST_QUERY_FAILURE'; payload: string }
   | { type: 'DELETE_SNIPPET_START'; payload: number }
   | { type: 'DELETE_SNIPPET_SUCCESS'; payload: WordPressPost }
   | { type: 'DELETE_SNIPPET_FAILURE'; payload: { postId: number, error: string } }
   | { type: 'SCORE_POSTS_START'; payload: { postIds: number[] } }
   | { type: 'SCORE_POSTS_PROGRESS_UPDATE'; payload: Partial<WordPressPost>[] } // SOTA: New action for real-time score updates.
+  | { type: 'SCORE_POSTS_BATCH_FAILED'; payload: { postIds: number[]; error: string } }
   | { type: 'SCORE_POSTS_SUCCESS' } // Payload no longer needed
   | { type: 'SCORE_POSTS_FAILURE'; payload: string }
+  | { type: 'SCORE_POSTS_CANCELLED' }
   | { type: 'INSERT_SNIPPET_SUCCESS'; payload: WordPressPost }
   | { type: 'FETCH_MORE_POSTS_START' }
   | { type: 'FETCH_MORE_POSTS_SUCCESS'; payload: { posts: WordPressPost[]; page: number; totalPages: number } }
   | { type: 'FETCH_MORE_POSTS_FAILURE'; payload: string }
   | { type: 'REFRESH_TOOL_START'; payload: number }
+  | { type: 'REFRESH_TOOL_READY'; payload: PendingRefresh }
   | { type: 'REFRESH_TOOL_SUCCESS'; payload: { postId: number; toolCreationDate: number } }
-  | { type: 'REFRESH_TOOL_FAILURE'; payload: { postId: number; error: string } };
+  | { type: 'REFRESH_TOOL_DISCARDED' }
+  | { type: 'REFRESH_TOOL_FAILURE'; payload: { postId: number; error: string } }
+  | { type: 'REFRESH_TOOL_CANCELLED' }
+  | { type: 'SITE_SCAN_START'; payload: { checkpoint: SiteScanCheckpoint; startedAt: number } }
+  | { type: 'SITE_SCAN_PAGE_LOADED'; payload: WordPressPost[] }
+  | { type: 'SITE_SCAN_PAGE_DONE'; payload: SiteScanCheckpoint }
+  | { type: 'SITE_SCAN_PAUSED' }
+  | { type: 'SITE_SCAN_COMPLETE' }
+  | { type: 'SITE_SCAN_FAILURE'; payload: string }
+  | { type: 'SITE_SCAN_DISCARDED' }
+  | { type: 'SET_SCORING_PROFILES'; payload: SiteScoringProfiles }
+  | { type: 'BATCH_START'; payload: { posts: WordPressPost[]; autoPickIdea: boolean; autoFixAttempts: number } }
+  | { type: 'BATCH_ITEM_UPDATE'; payload: { postId: number; changes: Partial<BatchItem> } }
+  | { type: 'BATCH_CANCELLED' }
+  | { type: 'BATCH_CLEARED' }
+  | { type: 'RECORD_USAGE'; payload: UsageRecord };
 
 // --- CONTEXT and PROVIDER ---
 interface AppContextType {
@@ -47,64 +78,131 @@ interface AppContextType {
   setTheme: (theme: Theme) => void;
   setProvider: (provider: AiProvider) => void;
   setApiKey: (provider: AiProvider, key: string) => void;
-  setOpenRouterModel: (model: string) => void;
+  setProviderModel: (provider: AiProvider, task: AiTask, model: string) => void;
+  setProviderBaseUrl: (provider: AiProvider, baseUrl: string) => void;
   validateAndSaveApiKey: (provider: AiProvider) => Promise<void>;
   connectToWordPress: (config: WordPressConfig) => Promise<void>;
   retryConnection: () => void;
   reset: () => void;
-  setPostSearchQuery: (query: string) => void;
   setPostSortOrder: (order: 'opportunity' | 'date') => void;
+  setPostQuery: (query: PostQuery) => Promise<void>;
   deleteSnippet: (postId: number, toolId?: number) => Promise<void>;
   runOpportunityAnalysis: () => Promise<void>;
-  insertSnippet: (post: WordPressPost, snippet: string, idea: ToolIdea) => Promise<void>;
+  cancelOpportunityAnalysis: () => void;
+  scanEntireSite: () => Promise<void>;
+  pauseSiteScan: () => void;
+  discardSiteScan: () => void;
+  setScoringProfiles: (settings: SiteScoringProfiles) => void;
+  startBatchGeneration: (posts: WordPressPost[], autoPickIdea: boolean, autoFixAttempts: number) => Promise<void>;
+  pickBatchIdea: (postId: number, idea: ToolIdea) => Promise<void>;
+  retryBatchItem: (postId: number) => Promise<void>;
+  approveBatchItem: (postId: number, insertAt: number, embedMode: EmbedMode) => Promise<void>;
+  rejectBatchItem: (postId: number) => void;
+  cancelBatchGeneration: () => void;
+  clearBatchJob: () => void;
+  insertSnippet: (post: WordPressPost, snippet: string, idea: ToolIdea, insertAt: number, embedMode: EmbedMode) => Promise<void>;
   fetchMorePosts: () => Promise<void>;
   refreshTool: (postId: number, toolId: number) => Promise<void>;
+  acceptRefresh: () => Promise<void>;
+  discardRefresh: () => void;
+  cancelRefreshTool: () => void;
+  fetchToolVersions: (toolId: number) => Promise<ToolVersion[]>;
+  restoreToolVersion: (toolId: number, version: ToolVersion, versionNumber: number) => Promise<ToolVersion[]>;
+  recordUsage: (record: UsageRecord) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
-const filterAndSortPosts = (posts: WordPressPost[], query: string, sort: 'opportunity' | 'date'): WordPressPost[] => {
-    let filtered = posts;
-    if (query) {
-        filtered = posts.filter(p => p.title.rendered.toLowerCase().includes(query.toLowerCase()));
-    }
-    
-    const sorted = [...filtered];
+// Search and filters are applied by WordPress (see `PostQuery`); only the opportunity order is local.
+const sortPosts = (posts: WordPressPost[], sort: 'opportunity' | 'date'): WordPressPost[] => {
+    const sorted = [...posts];
 
     if (sort === 'opportunity') {
         sorted.sort((a, b) => (b.opportunityScore ?? -1) - (a.opportunityScore ?? -1));
     } else {
-        // Default WP API order is reverse chronological (newest first), so no sort needed for 'date'
+        // 'date' keeps the server order chosen by `postQuery.orderby`, so no sort is needed
     }
     return sorted;
 };
 
+// Appends posts that aren't listed yet; a site scan and "Load More" can fetch the same page.
+const mergePosts = (existing: WordPressPost[], incoming: WordPressPost[]): WordPressPost[] => {
+    const knownIds = new Set(existing.map(p => p.id));
+    return [...existing, ...incoming.filter(p => !knownIds.has(p.id))];
+};
+
+const getProfileKey = (scoringProfiles: SiteScoringProfiles): string =>
+    scoringProfileService.getProfileKey(scoringProfileService.getActiveProfile(scoringProfiles));
+
+const withoutScore = (post: WordPressPost): WordPressPost =>
+    ({ ...post, opportunityScore: undefined, opportunityRationale: undefined, opportunitySignals: undefined });
+
+// SOTA: Fill in opportunity scores from the cache so known posts aren't scored again.
+const withCachedScores = (posts: WordPressPost[], profileKey: string): WordPressPost[] => {
+    const cachedScores = opportunityScoreCache.getScores(profileKey);
+    return posts.map(post => {
+        const cached = cachedScores[post.id];
+        if (cached) {
+            return { ...post, opportunityScore: cached.opportunityScore, opportunityRationale: cached.opportunityRationale, opportunitySignals: cached.opportunitySignals };
+        }
+        return post;
+    });
+};
+
 // --- INITIAL STATE ---
 const initialState: AppState = {
     status: 'idle',
     error: null,
     deletingPostId: null,
     refreshingPostId: null,
+    pendingRefresh: null,
     theme: 'light',
     frameStatus: 'initializing',
     isScoring: false,
     scoringPostIds: [],
+    scoringErrors: {},
     isFetchingMorePosts: false,
-    apiKeys: { [AiProvider.Gemini]: '', [AiProvider.OpenAI]: '', [AiProvider.Anthropic]: '', [AiProvider.OpenRouter]: '' },
-    apiValidationStatuses: { [AiProvider.Gemini]: 'idle', [AiProvider.OpenAI]: 'idle', [AiProvider.Anthropic]: 'idle', [AiProvider.OpenRouter]: 'idle' },
-    apiValidationErrorMessages: { [AiProvider.Gemini]: null, [AiProvider.OpenAI]: null, [AiProvider.Anthropic]: null, [AiProvider.OpenRouter]: null },
+    siteScan: null,
+    scoringProfiles: DEFAULT_SCORING_PROFILES,
+    batchJob: null,
+    apiKeys: mapProviders(() => ''),
+    apiValidationStatuses: mapProviders(() => 'idle' as const),
+    apiValidationErrorMessages: mapProviders(() => null),
     selectedProvider: AiProvider.Gemini,
-    openRouterModel: AI_PROVIDERS[AiProvider.OpenRouter].defaultModel,
+    providerModels: mapProviders(adapter => AI_PROVIDERS[adapter.id].defaultModels),
+    providerBaseUrls: mapProviders(adapter => adapter.defaultBaseUrl ?? ''),
+    sessionUsage: { inputTokens: 0, outputTokens: 0, calls: 0, cost: 0, hasUnpricedCalls: false },
+    postCosts: {},
     wpConfig: null,
+    postTypes: DEFAULT_POST_TYPES,
+    postQuery: DEFAULT_POST_QUERY,
+    categories: [],
+    tags: [],
     posts: [],
     filteredPosts: [],
     postsPage: 1,
     hasMorePosts: false,
-    postSearchQuery: '',
     postSortOrder: 'date',
     setupRequired: false,
 };
 
+/**
+ * Fills in defaults for providers and tasks missing from a stored model map.
+ * Older versions stored a single model string per provider; it is applied to every task.
+ */
+const mergeStoredModels = (stored: Record<string, TaskModels | string>): Record<AiProvider, TaskModels> =>
+    mapProviders(adapter => {
+        const defaults = initialState.providerModels[adapter.id];
+        const saved = stored[adapter.id];
+        if (typeof saved === 'string') return saved ? { scoring: saved, ideation: saved, code: saved } : defaults;
+        // Blank entries (saved before blanks fell back to the default) use the default too.
+        const models = { ...defaults };
+        for (const task of Object.keys(defaults) as AiTask[]) {
+            if (saved?.[task]?.trim()) models[task] = saved[task];
+        }
+        return models;
+    });
+
 // --- REDUCER ---
 const appReducer = (state: AppState, action: Action): AppState => {
   switch (action.type) {
@@ -118,8 +216,20 @@ const appReducer = (state: AppState, action: Action): AppState => {
         const newKeys = { ...state.apiKeys, [action.payload.provider]: action.payload.key };
         const newStatuses = { ...state.apiValidationStatuses, [action.payload.provider]: 'idle' as const };
         return { ...state, apiKeys: newKeys, apiValidationStatuses: newStatuses };
-    case 'SET_OPENROUTER_MODEL':
-        return { ...state, openRouterModel: action.payload };
+    case 'SET_PROVIDER_MODEL':
+        const { provider: modelProvider, task, model } = action.payload;
+        // A cleared field means the provider's default model, never an empty model name.
+        const taskModel = model.trim() || initialState.providerModels[modelProvider][task];
+        return {
+            ...state,
+            providerModels: { ...state.providerModels, [modelProvider]: { ...state.providerModels[modelProvider], [task]: taskModel } },
+        };
+    case 'SET_PROVIDER_BASE_URL':
+        return {
+            ...state,
+            providerBaseUrls: { ...state.providerBaseUrls, [action.payload.provider]: action.payload.baseUrl },
+            apiValidationStatuses: { ...state.apiValidationStatuses, [action.payload.provider]: 'idle' },
+        };
     case 'VALIDATE_API_KEY_START':
         return { ...state, apiValidationStatuses: { ...state.apiValidationStatuses, [action.payload]: 'validating' } };
     case 'VALIDATE_API_KEY_SUCCESS':
@@ -129,29 +239,30 @@ const appReducer = (state: AppState, action: Action): AppState => {
     case 'CONNECT_START':
         return { ...state, status: 'loading', error: null, setupRequired: false };
     case 'CONNECT_SUCCESS':
-        const initialPosts = action.payload.posts; // SOTA: Get scores from cache after connecting
-        const cachedScores = opportunityScoreCache.getScores();
-        const hydratedPosts = initialPosts.map(post => {
-            const cached = cachedScores[post.id];
-            if (cached) {
-                return { ...post, opportunityScore: cached.opportunityScore, opportunityRationale: cached.opportunityRationale };
-            }
-            return post;
-        });
-        const initialFilteredPosts = filterAndSortPosts(hydratedPosts, state.postSearchQuery, state.postSortOrder);
-        return { ...state, status: 'success', wpConfig: action.payload.config, posts: hydratedPosts, filteredPosts: initialFilteredPosts, postsPage: 1, hasMorePosts: 1 < action.payload.totalPages };
+        const hydratedPosts = withCachedScores(action.payload.posts, getProfileKey(action.payload.scoringProfiles));
+        const initialFilteredPosts = sortPosts(hydratedPosts, state.postSortOrder);
+        return { ...state, status: 'success', wpConfig: action.payload.config, postTypes: action.payload.postTypes, categories: action.payload.categories, tags: action.payload.tags, scoringProfiles: action.payload.scoringProfiles, posts: hydratedPosts, filteredPosts: initialFilteredPosts, postsPage: 1, hasMorePosts: 1 < action.payload.totalPages,
+            // A scan interrupted by a reload comes back paused, ready to resume.
+            siteScan: action.payload.siteScan ? { ...action.payload.siteScan, isRunning: false, runStartedAt: null, pagesAtRunStart: action.payload.siteScan.completedPages.length } : null,
+        };
     case 'CONNECT_FAILURE':
         return { ...state, status: 'error', error: action.payload };
     case 'SETUP_REQUIRED':
         return { ...state, status: 'idle', error: null, setupRequired: true, wpConfig: action.payload };
     case 'RESET':
-        return { ...initialState, apiKeys: state.apiKeys, theme: state.theme }; // Keep theme and keys on reset
-    case 'SET_POST_SEARCH_QUERY':
-        const filteredByQuery = filterAndSortPosts(state.posts, action.payload, state.postSortOrder);
-        return { ...state, postSearchQuery: action.payload, filteredPosts: filteredByQuery };
+        // Keep theme, provider settings and the session's spend on reset
+        return { ...initialState, apiKeys: state.apiKeys, providerModels: state.providerModels, providerBaseUrls: state.providerBaseUrls, sessionUsage: state.sessionUsage, theme: state.theme };
     case 'SET_POST_SORT_ORDER':
-        const sorted = filterAndSortPosts(state.posts, state.postSearchQuery, action.payload);
+        const sorted = sortPosts(state.posts, action.payload);
         return { ...state, postSortOrder: action.payload, filteredPosts: sorted };
+    case 'SET_POST_QUERY_START':
+        return { ...state, status: 'loading', error: null, postQuery: action.payload, posts: [], filteredPosts: [], postsPage: 1, hasMorePosts: false };
+    case 'SET_POST_QUERY_SUCCESS':
+        const queriedPosts = withCachedScores(action.payload.posts, getProfileKey(state.scoringProfiles));
+        return { ...state, status: 'success', posts: queriedPosts, filteredPosts: sortPosts(queriedPosts, state.postSortOrder), postsPage: 1, hasMorePosts: 1 < action.payload.totalPages };
+    case 'SET_POST_QUERY_FAILURE':
+        // Stay on the dashboard; the error is shown in place of the post grid.
+        return { ...state, status: 'success', error: action.payload };
     case 'DELETE_SNIPPET_START':
         return { ...state, deletingPostId: action.payload };
     case 'DELETE_SNIPPET_SUCCESS':
@@ -160,13 +271,16 @@ const appReducer = (state: AppState, action: Action): AppState => {
             ...state, 
             deletingPostId: null,
             posts: postsAfterDelete,
-            filteredPosts: filterAndSortPosts(postsAfterDelete, state.postSearchQuery, state.postSortOrder)
+            filteredPosts: sortPosts(postsAfterDelete, state.postSortOrder)
         };
     case 'DELETE_SNIPPET_FAILURE':
         console.error(`Failed to delete snippet for post ${action.payload.postId}: ${action.payload.error}`);
         return { ...state, deletingPostId: null };
     case 'SCORE_POSTS_START':
-        return { ...state, isScoring: true, error: null, scoringPostIds: action.payload.postIds };
+        // Posts being scored again get a fresh chance; earlier failures for them are cleared.
+        const remainingErrors = { ...state.scoringErrors };
+        action.payload.postIds.forEach(id => delete remainingErrors[id]);
+        return { ...state, isScoring: true, error: null, scoringPostIds: action.payload.postIds, scoringErrors: remainingErrors };
     case 'SCORE_POSTS_PROGRESS_UPDATE':
         // SOTA: Incrementally update scores as they arrive from the API.
         const updatedPosts = state.posts.map(post => {
@@ -177,46 +291,137 @@ const appReducer = (state: AppState, action: Action): AppState => {
         return {
             ...state,
             posts: updatedPosts,
-            filteredPosts: filterAndSortPosts(updatedPosts, state.postSearchQuery, state.postSortOrder),
+            filteredPosts: sortPosts(updatedPosts, state.postSortOrder),
             scoringPostIds: updatedScoringIds,
         };
+    case 'SCORE_POSTS_BATCH_FAILED':
+        const failedErrors = { ...state.scoringErrors };
+        action.payload.postIds.forEach(id => { failedErrors[id] = action.payload.error; });
+        return {
+            ...state,
+            scoringErrors: failedErrors,
+            scoringPostIds: state.scoringPostIds.filter(id => !action.payload.postIds.includes(id)),
+        };
     case 'SCORE_POSTS_SUCCESS':
         return { 
             ...state, 
             isScoring: false,
             scoringPostIds: [],
             postSortOrder: 'opportunity', // Switch to opportunity sort after scoring
-            filteredPosts: filterAndSortPosts(state.posts, state.postSearchQuery, 'opportunity'),
+            filteredPosts: sortPosts(state.posts, 'opportunity'),
         };
     case 'SCORE_POSTS_FAILURE':
         return { ...state, isScoring: false, scoringPostIds: [], error: action.payload };
+    case 'SCORE_POSTS_CANCELLED':
+        // Keep the scores that already arrived; the rest can be analyzed again later.
+        return { ...state, isScoring: false, scoringPostIds: [] };
     case 'INSERT_SNIPPET_SUCCESS':
          const postsAfterInsert = state.posts.map(p => p.id === action.payload.id ? action.payload : p);
         return { 
             ...state, 
             posts: postsAfterInsert,
-            filteredPosts: filterAndSortPosts(postsAfterInsert, state.postSearchQuery, state.postSortOrder)
+            filteredPosts: sortPosts(postsAfterInsert, state.postSortOrder)
         };
     case 'FETCH_MORE_POSTS_START':
         return { ...state, isFetchingMorePosts: true };
     case 'FETCH_MORE_POSTS_SUCCESS':
-        const newPosts = [...state.posts, ...action.payload.posts];
-        return { ...state, isFetchingMorePosts: false, posts: newPosts, filteredPosts: filterAndSortPosts(newPosts, state.postSearchQuery, state.postSortOrder), postsPage: action.payload.page, hasMorePosts: action.payload.page < action.payload.totalPages };
+        const newPosts = mergePosts(state.posts, withCachedScores(action.payload.posts, getProfileKey(state.scoringProfiles)));
+        return { ...state, isFetchingMorePosts: false, posts: newPosts, filteredPosts: sortPosts(newPosts, state.postSortOrder), postsPage: action.payload.page, hasMorePosts: action.payload.page < action.payload.totalPages };
     case 'FETCH_MORE_POSTS_FAILURE':
         return { ...state, isFetchingMorePosts: false, error: action.payload };
     case 'REFRESH_TOOL_START':
         return { ...state, refreshingPostId: action.payload };
+    case 'REFRESH_TOOL_READY':
+        return { ...state, refreshingPostId: null, pendingRefresh: action.payload };
+    case 'REFRESH_TOOL_DISCARDED':
+        return { ...state, pendingRefresh: null };
     case 'REFRESH_TOOL_SUCCESS':
         const postsAfterRefresh = state.posts.map(p => p.id === action.payload.postId ? { ...p, toolCreationDate: action.payload.toolCreationDate } : p);
         return { 
             ...state, 
             refreshingPostId: null,
+            pendingRefresh: null,
             posts: postsAfterRefresh,
-            filteredPosts: filterAndSortPosts(postsAfterRefresh, state.postSearchQuery, state.postSortOrder)
+            filteredPosts: sortPosts(postsAfterRefresh, state.postSortOrder)
         };
     case 'REFRESH_TOOL_FAILURE':
         console.error(`Failed to refresh snippet for post ${action.payload.postId}: ${action.payload.error}`);
         return { ...state, refreshingPostId: null, error: `Failed to refresh tool for post ${action.payload.postId}.` };
+    case 'REFRESH_TOOL_CANCELLED':
+        return { ...state, refreshingPostId: null };
+    case 'SITE_SCAN_START':
+        const { checkpoint, startedAt } = action.payload;
+        return { ...state, error: null, siteScan: { ...checkpoint, isRunning: true, runStartedAt: startedAt, pagesAtRunStart: checkpoint.completedPages.length } };
+    case 'SITE_SCAN_PAGE_LOADED':
+        const postsWithPage = mergePosts(state.posts, withCachedScores(action.payload, getProfileKey(state.scoringProfiles)));
+        return { ...state, posts: postsWithPage, filteredPosts: sortPosts(postsWithPage, state.postSortOrder) };
+    case 'SITE_SCAN_PAGE_DONE':
+        return state.siteScan ? { ...state, siteScan: { ...state.siteScan, ...action.payload } } : state;
+    case 'SITE_SCAN_PAUSED':
+        return state.siteScan ? { ...state, siteScan: { ...state.siteScan, isRunning: false, runStartedAt: null } } : state;
+    case 'SITE_SCAN_COMPLETE':
+        return {
+            ...state,
+            siteScan: null,
+            postSortOrder: 'opportunity',
+            filteredPosts: sortPosts(state.posts, 'opportunity'),
+        };
+    case 'SITE_SCAN_FAILURE':
+        // The checkpoint is kept, so the scan can be resumed once the problem is fixed.
+        return { ...state, error: action.payload, siteScan: state.siteScan ? { ...state.siteScan, isRunning: false, runStartedAt: null } : null };
+    case 'SITE_SCAN_DISCARDED':
+        return { ...state, siteScan: null };
+    case 'SET_SCORING_PROFILES':
+        if (getProfileKey(action.payload) === getProfileKey(state.scoringProfiles)) {
+            return { ...state, scoringProfiles: action.payload };
+        }
+        // Scores from the old rubric no longer apply; show the ones cached under the new one, if any.
+        const rescoredPosts = withCachedScores(state.posts.map(withoutScore), getProfileKey(action.payload));
+        return { ...state, scoringProfiles: action.payload, scoringErrors: {}, posts: rescoredPosts, filteredPosts: sortPosts(rescoredPosts, state.postSortOrder) };
+    case 'BATCH_START':
+        const batchItems: BatchItem[] = action.payload.posts.map(post => ({ post, status: 'queued', ideas: [], idea: null, snippet: '', issues: [], smokeReport: null, fixAttempts: [], error: null }));
+        return { ...state, batchJob: { items: batchItems, autoPickIdea: action.payload.autoPickIdea, autoFixAttempts: action.payload.autoFixAttempts } };
+    case 'BATCH_ITEM_UPDATE':
+        if (!state.batchJob) return state;
+        return {
+            ...state,
+            batchJob: {
+                ...state.batchJob,
+                items: state.batchJob.items.map(item => item.post.id === action.payload.postId ? { ...item, ...action.payload.changes } : item),
+            },
+        };
+    case 'BATCH_CANCELLED':
+        if (!state.batchJob) return state;
+        // Finished snippets stay in the review queue; unfinished posts can be retried.
+        const unfinished = ['queued', 'ideating', 'generating', 'testing'];
+        return {
+            ...state,
+            batchJob: {
+                ...state.batchJob,
+                items: state.batchJob.items.map(item => unfinished.includes(item.status) ? { ...item, status: 'failed', error: 'Stopped before it finished.' } : item),
+            },
+        };
+    case 'BATCH_CLEARED':
+        return { ...state, batchJob: null };
+    case 'RECORD_USAGE':
+        const usage = action.payload;
+        const postCosts = { ...state.postCosts };
+        // A scoring batch covers several posts, so its cost is split evenly between them.
+        if (usage.cost && usage.postIds.length > 0) {
+            const share = usage.cost / usage.postIds.length;
+            usage.postIds.forEach(id => { postCosts[id] = (postCosts[id] ?? 0) + share; });
+        }
+        return {
+            ...state,
+            postCosts,
+            sessionUsage: {
+                inputTokens: state.sessionUsage.inputTokens + usage.inputTokens,
+                outputTokens: state.sessionUsage.outputTokens + usage.outputTokens,
+                calls: state.sessionUsage.calls + 1,
+                cost: state.sessionUsage.cost + (usage.cost ?? 0),
+                hasUnpricedCalls: state.sessionUsage.hasUnpricedCalls || usage.cost === null,
+            },
+        };
     default:
       return state;
   }
@@ -225,6 +430,13 @@ const appReducer = (state: AppState, action: Action): AppState => {
 // --- PROVIDER COMPONENT ---
 export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [state, dispatch] = useReducer(appReducer, initialState);
+    // Long-running AI operations that the user can stop from the dashboard.
+    const scoringControllerRef = useRef<AbortController | null>(null);
+    const refreshControllerRef = useRef<AbortController | null>(null);
+    const siteScanControllerRef = useRef<AbortController | null>(null);
+    const batchControllerRef = useRef<AbortController | null>(null);
+    // The latest post query; responses for earlier ones are dropped when the user switches quickly.
+    const postQueryRef = useRef<PostQuery>(DEFAULT_POST_QUERY);
 
     useEffect(() => {
         // Load persisted state from localStorage
@@ -232,8 +444,13 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
         const storedKeys = localStorage.getItem('apiKeys');
         const storedConfig = localStorage.getItem('wpConfig');
         const storedTheme = localStorage.getItem('theme') as Theme;
+        const storedModels = localStorage.getItem('providerModels');
+        const storedBaseUrls = localStorage.getItem('providerBaseUrls');
 
-        if (storedKeys) persistedState.apiKeys = JSON.parse(storedKeys);
+        // Merge so providers added since the keys were saved still get an entry.
+        if (storedKeys) persistedState.apiKeys = { ...initialState.apiKeys, ...JSON.parse(storedKeys) };
+        if (storedModels) persistedState.providerModels = mergeStoredModels(JSON.parse(storedModels));
+        if (storedBaseUrls) persistedState.providerBaseUrls = { ...initialState.providerBaseUrls, ...JSON.parse(storedBaseUrls) };
         if (storedConfig) persistedState.wpConfig = JSON.parse(storedConfig);
         if (storedTheme) persistedState.theme = storedTheme;
         else if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) {
@@ -253,23 +470,27 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
         }
         localStorage.setItem('theme', state.theme);
     }, [state.theme]);
+
+    useEffect(() => {
+        // Persist per-task model choices as soon as they change
+        localStorage.setItem('providerModels', JSON.stringify(state.providerModels));
+    }, [state.providerModels]);
     
     const setTheme = (theme: Theme) => dispatch({ type: 'SET_THEME', payload: theme });
     const setProvider = (provider: AiProvider) => dispatch({ type: 'SET_PROVIDER', payload: provider });
     const setApiKey = (provider: AiProvider, key: string) => dispatch({ type: 'SET_API_KEY', payload: { provider, key } });
-    const setOpenRouterModel = (model: string) => dispatch({ type: 'SET_OPENROUTER_MODEL', payload: model });
-    const setPostSearchQuery = (query: string) => dispatch({ type: 'SET_POST_SEARCH_QUERY', payload: query });
+    const setProviderModel = (provider: AiProvider, task: AiTask, model: string) => dispatch({ type: 'SET_PROVIDER_MODEL', payload: { provider, task, model } });
+    const setProviderBaseUrl = (provider: AiProvider, baseUrl: string) => dispatch({ type: 'SET_PROVIDER_BASE_URL', payload: { provider, baseUrl } });
     const setPostSortOrder = (order: 'opportunity' | 'date') => dispatch({ type: 'SET_POST_SORT_ORDER', payload: order });
+    const recordUsage = (record: UsageRecord) => dispatch({ type: 'RECORD_USAGE', payload: record });
 
     const validateAndSaveApiKey = async (provider: AiProvider) => {
         dispatch({ type: 'VALIDATE_API_KEY_START', payload: provider });
-        const key = state.apiKeys[provider];
-        const model = provider === AiProvider.OpenRouter ? state.openRouterModel : AI_PROVIDERS[provider].defaultModel;
-
-        const isValid = await aiService.validateApiKey(provider, key, model);
+        const isValid = await aiService.validateApiKey(provider, getProviderCredentials(state, provider), state.providerModels[provider].scoring);
 
         if (isValid) {
             localStorage.setItem('apiKeys', JSON.stringify(state.apiKeys));
+            localStorage.setItem('providerBaseUrls', JSON.stringify(state.providerBaseUrls));
             dispatch({ type: 'VALIDATE_API_KEY_SUCCESS', payload: provider });
         } else {
             dispatch({ type: 'VALIDATE_API_KEY_FAILURE', payload: { provider } });
@@ -284,9 +505,17 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
                 dispatch({ type: 'SETUP_REQUIRED', payload: config });
                 return;
             }
-            const { posts, totalPages } = await wordpressService.fetchPosts(config, 1);
+            // Filter options are optional extras; the dashboard still works without them.
+            const [{ posts, totalPages }, postTypes, categories, tags] = await Promise.all([
+                wordpressService.fetchPosts(config, 1, state.postQuery),
+                wordpressService.fetchPostTypes(config).catch(() => DEFAULT_POST_TYPES),
+                wordpressService.fetchTerms(config, 'categories').catch(() => []),
+                wordpressService.fetchTerms(config, 'tags').catch(() => []),
+            ]);
             localStorage.setItem('wpConfig', JSON.stringify(config));
-            dispatch({ type: 'CONNECT_SUCCESS', payload: { config, posts, totalPages } });
+            const siteScan = siteScanService.loadCheckpoint(config.url);
+            const scoringProfiles = scoringProfileService.loadScoringProfiles(config.url);
+            dispatch({ type: 'CONNECT_SUCCESS', payload: { config, posts, totalPages, postTypes, categories, tags, siteScan, scoringProfiles } });
         } catch (error: any) {
             dispatch({ type: 'CONNECT_FAILURE', payload: error.message || 'An unknown error occurred.' });
         }
@@ -297,13 +526,34 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
         dispatch({ type: 'FETCH_MORE_POSTS_START' });
         try {
             const nextPage = state.postsPage + 1;
-            const { posts, totalPages } = await wordpressService.fetchPosts(state.wpConfig, nextPage);
+            const { posts, totalPages } = await wordpressService.fetchPosts(state.wpConfig, nextPage, state.postQuery);
             dispatch({ type: 'FETCH_MORE_POSTS_SUCCESS', payload: { posts, page: nextPage, totalPages } });
         } catch (error: any) {
             dispatch({ type: 'FETCH_MORE_POSTS_FAILURE', payload: error.message || 'Failed to fetch more posts.' });
         }
     };
 
+    /**
+     * Switches the post browser to another post type, status, search or filter set and loads its first page.
+     */
+    const setPostQuery = async (query: PostQuery) => {
+        if (!state.wpConfig) return;
+        // Scores for the old list would land on posts that are no longer shown.
+        if (state.isScoring) cancelOpportunityAnalysis();
+        // Likewise for a running scan; pausing keeps its checkpoint, and resuming reloads the scanned query.
+        if (state.siteScan?.isRunning) pauseSiteScan();
+        postQueryRef.current = query;
+        dispatch({ type: 'SET_POST_QUERY_START', payload: query });
+        try {
+            const { posts, totalPages } = await wordpressService.fetchPosts(state.wpConfig, 1, query);
+            if (postQueryRef.current !== query) return;
+            dispatch({ type: 'SET_POST_QUERY_SUCCESS', payload: { posts, totalPages } });
+        } catch (error: any) {
+            if (postQueryRef.current !== query) return;
+            dispatch({ type: 'SET_POST_QUERY_FAILURE', payload: error.message || 'Failed to fetch posts.' });
+        }
+    };
+
     const retryConnection = () => {
         if (state.wpConfig) {
             connectToWordPress(state.wpConfig);
@@ -312,6 +562,7 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
 
     const reset = () => {
         localStorage.removeItem('wpConfig');
+        batchControllerRef.current?.abort();
         dispatch({ type: 'RESET' });
     };
 
@@ -324,8 +575,8 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
             }
             const post = state.posts.find(p => p.id === postId);
             if (!post) throw new Error("Post not found");
-            const newContent = post.content.rendered.replace(SHORTCODE_REMOVAL_REGEX, '');
-            const updatedPost = await wordpressService.updatePost(state.wpConfig, postId, newContent);
+            const newContent = removeToolShortcodes(getEditableContent(post));
+            const updatedPost = await wordpressService.updatePost(state.wpConfig, post.restBase, postId, newContent);
             const freshPostDetails: WordPressPost = { ...post, ...updatedPost, hasOptimizerSnippet: false, toolId: undefined, opportunityScore: undefined, toolCreationDate: undefined, opportunityRationale: undefined };
             dispatch({ type: 'DELETE_SNIPPET_SUCCESS', payload: freshPostDetails });
         } catch (error: any) {
@@ -333,15 +584,27 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
         }
     };
     
+    // SOTA: Scores are cached (under the profile they were given with) and shown as each batch arrives.
+    const onScoresReceived = (scoredBatch: Partial<WordPressPost>[], profileKey: string) => {
+        opportunityScoreCache.addScores(scoredBatch, profileKey);
+        dispatch({ type: 'SCORE_POSTS_PROGRESS_UPDATE', payload: scoredBatch });
+    };
+
+    const onScoringBatchFailed = (postIds: number[], error: string) => dispatch({ type: 'SCORE_POSTS_BATCH_FAILED', payload: { postIds, error } });
+
     const runOpportunityAnalysis = async () => {
-        const { selectedProvider, apiKeys, posts, openRouterModel } = state;
-        const apiKey = apiKeys[selectedProvider];
-        const model = selectedProvider === AiProvider.OpenRouter ? openRouterModel : AI_PROVIDERS[selectedProvider].defaultModel;
+        const { selectedProvider, posts, providerModels } = state;
+        const credentials = getProviderCredentials(state, selectedProvider);
+        const model = providerModels[selectedProvider].scoring;
+        const profile = scoringProfileService.getActiveProfile(state.scoringProfiles);
+        const profileKey = scoringProfileService.getProfileKey(profile);
     
-        if (!apiKey || posts.length === 0) return;
+        if ((AI_PROVIDERS[selectedProvider].apiKeyMode === 'required' && !credentials.apiKey) || posts.length === 0) return;
+        // A running site scan scores the posts it loads itself.
+        if (state.siteScan?.isRunning) return;
     
         // SOTA: Only analyze posts that don't have a fresh score in the cache.
-        const cachedScores = opportunityScoreCache.getScores();
+        const cachedScores = opportunityScoreCache.getScores(profileKey);
         const postsToScore = posts.filter(p => cachedScores[p.id] === undefined);
     
         if (postsToScore.length === 0) {
@@ -351,43 +614,134 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
         }
         
         dispatch({ type: 'SCORE_POSTS_START', payload: { postIds: postsToScore.map(p => p.id) } });
+        const controller = new AbortController();
+        scoringControllerRef.current = controller;
         
         try {
-            // SOTA: onProgress callback dispatches incremental updates and saves to cache.
-            const onProgress = (scoredBatch: Partial<WordPressPost>[]) => {
-                opportunityScoreCache.addScores(scoredBatch);
-                dispatch({ type: 'SCORE_POSTS_PROGRESS_UPDATE', payload: scoredBatch });
-            };
-    
-            await aiService.getOpportunityScores(apiKey, selectedProvider, postsToScore, model, onProgress);
+            await aiService.getOpportunityScores(credentials, selectedProvider, postsToScore, model, profile, batch => onScoresReceived(batch, profileKey), onScoringBatchFailed, controller.signal, recordUsage);
             
             dispatch({ type: 'SCORE_POSTS_SUCCESS' });
         } catch (error: any) {
+            // A cancelled run was already reported by cancelOpportunityAnalysis.
+            if (aiService.isAbortError(error)) return;
             dispatch({ type: 'SCORE_POSTS_FAILURE', payload: error.message || 'An error occurred during scoring.' });
+        } finally {
+            if (scoringControllerRef.current === controller) scoringControllerRef.current = null;
         }
     };
 
-    const insertSnippet = async (post: WordPressPost, snippet: string, idea: ToolIdea) => {
-        const { wpConfig } = state;
+    const cancelOpportunityAnalysis = () => {
+        scoringControllerRef.current?.abort();
+        scoringControllerRef.current = null;
+        dispatch({ type: 'SCORE_POSTS_CANCELLED' });
+    };
+
+    /**
+     * Fetches every page of the current post query and scores the posts on it, a few pages at a time.
+     * Progress is checkpointed after each page, so a paused or interrupted scan resumes where it stopped.
+     */
+    const scanEntireSite = async () => {
+        const { wpConfig, selectedProvider, providerModels, siteScan } = state;
+        const credentials = getProviderCredentials(state, selectedProvider);
+        const model = providerModels[selectedProvider].scoring;
+        const profile = scoringProfileService.getActiveProfile(state.scoringProfiles);
+        const profileKey = scoringProfileService.getProfileKey(profile);
+        if (!wpConfig || siteScan?.isRunning) return;
+        if (AI_PROVIDERS[selectedProvider].apiKeyMode === 'required' && !credentials.apiKey) return;
+        if (state.isScoring) cancelOpportunityAnalysis();
+
+        // Only the checkpoint fields carry over from a paused scan; the run state is set by SITE_SCAN_START.
+        let checkpoint: SiteScanCheckpoint = siteScan
+            ? { siteUrl: siteScan.siteUrl, query: siteScan.query, totalPages: siteScan.totalPages, totalPosts: siteScan.totalPosts, completedPages: siteScan.completedPages }
+            : { siteUrl: wpConfig.url, query: state.postQuery, totalPages: 0, totalPosts: 0, completedPages: [] };
+        // A resumed scan loads its pages into the list it was started from.
+        if (JSON.stringify(checkpoint.query) !== JSON.stringify(state.postQuery)) {
+            await setPostQuery(checkpoint.query);
+        }
+
+        const controller = new AbortController();
+        siteScanControllerRef.current = controller;
+        dispatch({ type: 'SITE_SCAN_START', payload: { checkpoint, startedAt: Date.now() } });
+
+        const scanPage = async (page: number) => {
+            const { posts, totalPages, totalPosts } = await wordpressService.fetchPosts(wpConfig, page, checkpoint.query);
+            controller.signal.throwIfAborted();
+            dispatch({ type: 'SITE_SCAN_PAGE_LOADED', payload: posts });
+
+            const cachedScores = opportunityScoreCache.getScores(profileKey);
+            const postsToScore = posts.filter(p => cachedScores[p.id] === undefined);
+            if (postsToScore.length > 0) {
+                await aiService.getOpportunityScores(credentials, selectedProvider, postsToScore, model, profile, batch => onScoresReceived(batch, profileKey), onScoringBatchFailed, controller.signal, recordUsage);
+            }
+
+            checkpoint = { ...checkpoint, totalPages, totalPosts, completedPages: [...checkpoint.completedPages, page] };
+            siteScanService.saveCheckpoint(checkpoint);
+            dispatch({ type: 'SITE_SCAN_PAGE_DONE', payload: checkpoint });
+        };
+
+        try {
+            siteScanService.saveCheckpoint(checkpoint);
+            // The first page tells us how many there are.
+            if (checkpoint.totalPages === 0) await scanPage(1);
+            await siteScanService.runWithConcurrency(siteScanService.getPendingPages(checkpoint), siteScanService.SCAN_PAGE_CONCURRENCY, scanPage, controller.signal);
+            siteScanService.clearCheckpoint(checkpoint.siteUrl);
+            dispatch({ type: 'SITE_SCAN_COMPLETE' });
+        } catch (error: any) {
+            // A paused scan was already reported by pauseSiteScan.
+            if (aiService.isAbortError(error)) return;
+            controller.abort();
+            dispatch({ type: 'SITE_SCAN_FAILURE', payload: error.message || 'The site scan failed.' });
+        } finally {
+            if (siteScanControllerRef.current === controller) siteScanControllerRef.current = null;
+        }
+    };
+
+    const pauseSiteScan = () => {
+        siteScanControllerRef.current?.abort();
+        siteScanControllerRef.current = null;
+        dispatch({ type: 'SITE_SCAN_PAUSED' });
+    };
+
+    const discardSiteScan = () => {
+        pauseSiteScan();
+        if (state.siteScan) siteScanService.clearCheckpoint(state.siteScan.siteUrl);
+        dispatch({ type: 'SITE_SCAN_DISCARDED' });
+    };
+
+    /**
+     * Saves the site's scoring profiles. Changing the active rubric stops any scoring in progress,
+     * since its results would be cached under the old one.
+     */
+    const setScoringProfiles = (settings: SiteScoringProfiles) => {
+        if (!state.wpConfig) return;
+        scoringProfileService.saveScoringProfiles(state.wpConfig.url, settings);
+        if (getProfileKey(settings) !== getProfileKey(state.scoringProfiles)) {
+            if (state.isScoring) cancelOpportunityAnalysis();
+            if (state.siteScan?.isRunning) pauseSiteScan();
+        }
+        dispatch({ type: 'SET_SCORING_PROFILES', payload: settings });
+    };
+
+    /**
+     * Saves the tool and places it in the post.
+     * @param snippet The normalized snippet (see normalizeSnippet) that passed the checks; it is saved exactly as given.
+     * @param insertAt Offset in the post's editable content chosen in the insertion outline.
+     * @param embedMode How the connector isolates the tool from the theme.
+     */
+    const insertSnippet = async (post: WordPressPost, snippet: string, idea: ToolIdea, insertAt: number, embedMode: EmbedMode) => {
+        const { wpConfig, selectedProvider, providerModels } = state;
         if (!wpConfig || !post || !snippet || !idea) {
             throw new Error("Missing required data to insert snippet.");
         }
        
-        const tool = await wordpressService.createCfTool(wpConfig, idea.title, snippet);
-        const shortcode = `[contentforge_tool id="${tool.id}"]`;
-        const content = post.content.rendered;
-        
-        // Intelligent insertion: after the first H2, or at the start.
-        const h2Match = /<\/h2>/i.exec(content);
-        let newContent = '';
-        if (h2Match) {
-            const insertIndex = h2Match.index + 5; // after the </h2> tag
-            newContent = content.slice(0, insertIndex) + `<p>${shortcode}</p>` + content.slice(insertIndex);
-        } else {
-            newContent = `<p>${shortcode}</p>` + content;
-        }
+        const tool = await wordpressService.createCfTool(wpConfig, idea.title, snippet, {
+            provider: selectedProvider,
+            model: providerModels[selectedProvider].code,
+            note: 'Created',
+        }, embedMode);
+        const newContent = insertToolAt(getEditableContent(post), insertAt, tool.id);
         
-        const updatedPost = await wordpressService.updatePost(wpConfig, post.id, newContent);
+        const updatedPost = await wordpressService.updatePost(wpConfig, post.restBase, post.id, newContent);
         
         const finalPost: WordPressPost = {
             ...post,
@@ -400,59 +754,264 @@ export const AppContextProvider: React.FC<{ children: ReactNode }> = ({ children
         dispatch({ type: 'INSERT_SNIPPET_SUCCESS', payload: finalPost });
     };
 
+    // Batch jobs share one controller, so Stop ends every post still being worked on.
+    const getBatchSignal = (): AbortSignal => {
+        if (!batchControllerRef.current || batchControllerRef.current.signal.aborted) {
+            batchControllerRef.current = new AbortController();
+        }
+        return batchControllerRef.current.signal;
+    };
+
+    /**
+     * Takes one post of a batch from ideas to a checked snippet in the review queue.
+     * Without `idea`, ideas are generated first; unless `autoPickIdea` is set, the post then waits for a pick.
+     * With `autoFixAttempts`, a snippet that fails its checks is patched by the model as in the generation modal.
+     * Failures are recorded on the item so the rest of the batch carries on.
+     */
+    const generateBatchItem = async (post: WordPressPost, idea: ToolIdea | null, autoPickIdea: boolean, autoFixAttempts: number, signal: AbortSignal) => {
+        const { selectedProvider, providerModels } = state;
+        const credentials = getProviderCredentials(state, selectedProvider);
+        const update = (changes: Partial<BatchItem>) => dispatch({ type: 'BATCH_ITEM_UPDATE', payload: { postId: post.id, changes } });
+
+        try {
+            let chosenIdea = idea;
+            if (!chosenIdea) {
+                update({ status: 'ideating', error: null });
+                const ideas = await aiService.generateToolIdeas(credentials, selectedProvider, post, providerModels[selectedProvider].ideation, signal, recordUsage);
+                signal.throwIfAborted();
+                if (ideas.length === 0) throw new Error('No tool ideas were suggested for this post.');
+                if (!autoPickIdea) {
+                    update({ status: 'choosing', ideas });
+                    return;
+                }
+                chosenIdea = ideas[0];
+                update({ ideas });
+            }
+
+            update({ status: 'generating', idea: chosenIdea, snippet: '', issues: [], smokeReport: null, fixAttempts: [], error: null });
+            let snippet = '';
+            let fixAttempts: AutoFixAttempt[] = [];
+            const autoFix: aiService.AutoFixOptions | undefined = autoFixAttempts > 0 ? {
+                maxAttempts: autoFixAttempts,
+                check: findSnippetProblems,
+                onAttempt: (attempt) => {
+                    // Each attempt streams a whole new version.
+                    if (attempt.status === 'generating') snippet = '';
+                    fixAttempts = [...fixAttempts.filter(a => a.attempt !== attempt.attempt), attempt];
+                    update({ fixAttempts });
+                },
+            } : undefined;
+            const stream = await aiService.generateSnippet(credentials, selectedProvider, post, chosenIdea, providerModels[selectedProvider].code, signal, recordUsage, autoFix);
+            for await (const chunk of stream) {
+                snippet += chunk;
+            }
+            signal.throwIfAborted();
+            // Smoke tested and later inserted in the form it is saved in; the markup is checked as the model wrote it.
+            const rawSnippet = snippet.replace(/```html/gi, '').replace(/```/g, '');
+            snippet = normalizeSnippet(rawSnippet);
+            update({ status: 'testing', snippet, issues: checkSnippet(rawSnippet, snippet) });
+            // The same headless run as the generation modal; its report is shown in the review queue.
+            const smokeReport = await runSmokeTest(snippet, signal);
+            update({ status: 'review', smokeReport });
+        } catch (error: any) {
+            // A stopped batch was already reported by cancelBatchGeneration.
+            if (aiService.isAbortError(error) || signal.aborted) return;
+            update({ status: 'failed', error: error.message || 'Tool generation failed.' });
+        }
+    };
+
+    /**
+     * Queues tool generation for several posts. Finished tools wait in the review queue;
+     * nothing is inserted until each one is approved.
+     */
+    const startBatchGeneration = async (posts: WordPressPost[], autoPickIdea: boolean, autoFixAttempts: number) => {
+        const { selectedProvider } = state;
+        const credentials = getProviderCredentials(state, selectedProvider);
+        if (posts.length === 0) return;
+        if (AI_PROVIDERS[selectedProvider].apiKeyMode === 'required' && !credentials.apiKey) return;
+
+        batchControllerRef.current?.abort();
+        const signal = getBatchSignal();
+        dispatch({ type: 'BATCH_START', payload: { posts, autoPickIdea, autoFixAttempts } });
+        try {
+            await siteScanService.runWithConcurrency(posts, BATCH_GENERATION_CONCURRENCY, post => generateBatchItem(post, null, autoPickIdea, autoFixAttempts, signal), signal);
+        } catch (error: any) {
+            if (!aiService.isAbortError(error)) throw error;
+        }
+    };
+
+    const pickBatchIdea = async (postId: number, idea: ToolIdea) => {
+        const job = state.batchJob;
+        const item = job?.items.find(i => i.post.id === postId);
+        if (!job || !item || item.status !== 'choosing') return;
+        await generateBatchItem(item.post, idea, false, job.autoFixAttempts, getBatchSignal());
+    };
+
+    // Starts a failed or rejected post over, keeping its idea if it had one.
+    const retryBatchItem = async (postId: number) => {
+        const job = state.batchJob;
+        const item = job?.items.find(i => i.post.id === postId);
+        if (!job || !item) return;
+        await generateBatchItem(item.post, item.idea, job.autoPickIdea, job.autoFixAttempts, getBatchSignal());
+    };
+
+    /**
+     * Inserts an approved tool from the review queue.
+     * @param insertAt Offset in the post's editable content chosen in the insertion outline.
+     */
+    const approveBatchItem = async (postId: number, insertAt: number, embedMode: EmbedMode) => {
+        const item = state.batchJob?.items.find(i => i.post.id === postId);
+        if (!item || item.status !== 'review' || !item.idea) return;
+        // Use the post as it is now, in case it was edited since the batch started.
+        const post = state.posts.find(p => p.id === postId) ?? item.post;
+        dispatch({ type: 'BATCH_ITEM_UPDATE', payload: { postId, changes: { status: 'inserting', error: null } } });
+        try {
+            await insertSnippet(post, item.snippet, item.idea, insertAt, embedMode);
+            dispatch({ type: 'BATCH_ITEM_UPDATE', payload: { postId, changes: { status: 'approved' } } });
+        } catch (error: any) {
+            dispatch({ type: 'BATCH_ITEM_UPDATE', payload: { postId, changes: { status: 'review', error: error.message || 'Failed to insert the tool.' } } });
+        }
+    };
+
+    const rejectBatchItem = (postId: number) => dispatch({ type: 'BATCH_ITEM_UPDATE', payload: { postId, changes: { status: 'rejected' } } });
+
+    const cancelBatchGeneration = () => {
+        batchControllerRef.current?.abort();
+        batchControllerRef.current = null;
+        dispatch({ type: 'BATCH_CANCELLED' });
+    };
+
+    const clearBatchJob = () => {
+        cancelBatchGeneration();
+        dispatch({ type: 'BATCH_CLEARED' });
+    };
+
     const refreshTool = async (postId: number, toolId: number) => {
-        const { wpConfig, selectedProvider, apiKeys, posts, openRouterModel } = state;
+        const { wpConfig, selectedProvider, posts, providerModels } = state;
         const post = posts.find(p => p.id === postId);
         if (!wpConfig || !post) return;
         
         dispatch({ type: 'REFRESH_TOOL_START', payload: postId });
+        const controller = new AbortController();
+        refreshControllerRef.current = controller;
         try {
             const oldTool = await wordpressService.fetchCfTool(wpConfig, toolId);
-            const apiKey = apiKeys[selectedProvider];
-            const model = selectedProvider === AiProvider.OpenRouter ? openRouterModel : AI_PROVIDERS[selectedProvider].defaultModel;
+            const model = providerModels[selectedProvider].code;
             
-            const stream = await aiService.refreshSnippet(apiKey, selectedProvider, post, oldTool.content.rendered, model);
+            const stream = await aiService.refreshSnippet(getProviderCredentials(state, selectedProvider), selectedProvider, post, oldTool.content.rendered, model, controller.signal, recordUsage);
             
             let newSnippet = '';
             for await (const chunk of stream) {
                 newSnippet += chunk;
             }
+            // Never offer a partial snippet from a stopped stream.
+            controller.signal.throwIfAborted();
 
             if (newSnippet) {
-                await wordpressService.updateCfTool(wpConfig, toolId, oldTool.title.rendered, newSnippet);
-                dispatch({ type: 'REFRESH_TOOL_SUCCESS', payload: { postId, toolCreationDate: Date.now() } });
+                // Held for review; acceptRefresh publishes it. Normalized now so the review shows what will be saved.
+                dispatch({
+                    type: 'REFRESH_TOOL_READY',
+                    payload: { postId, toolId, oldSnippet: oldTool.content.rendered, newSnippet: normalizeSnippet(newSnippet), provider: selectedProvider, model },
+                });
             } else {
                 throw new Error("AI failed to generate a refreshed snippet.");
             }
 
         } catch (error: any) {
+            if (aiService.isAbortError(error)) return;
             dispatch({ type: 'REFRESH_TOOL_FAILURE', payload: { postId, error: error.message } });
+        } finally {
+            if (refreshControllerRef.current === controller) refreshControllerRef.current = null;
         }
     };
 
+    /**
+     * Publishes the reviewed refresh and records it in the tool's version history.
+     * @throws If WordPress rejects the update; the refresh stays pending so it can be retried.
+     */
+    const acceptRefresh = async () => {
+        const { wpConfig, pendingRefresh } = state;
+        if (!wpConfig || !pendingRefresh) return;
+        const { postId, toolId, newSnippet, provider, model } = pendingRefresh;
+        await wordpressService.saveCfToolVersion(wpConfig, toolId, newSnippet, { provider, model, note: 'AI refresh' });
+        dispatch({ type: 'REFRESH_TOOL_SUCCESS', payload: { postId, toolCreationDate: Date.now() } });
+    };
+
+    const discardRefresh = () => dispatch({ type: 'REFRESH_TOOL_DISCARDED' });
+
+    const cancelRefreshTool = () => {
+        refreshControllerRef.current?.abort();
+        refreshControllerRef.current = null;
+        dispatch({ type: 'REFRESH_TOOL_CANCELLED' });
+    };
+
+    const fetchToolVersions = async (toolId: number): Promise<ToolVersion[]> => {
+        if (!state.wpConfig) return [];
+        const tool = await wordpressService.fetchCfTool(state.wpConfig, toolId);
+        return wordpressService.getToolHistory(tool);
+    };
+
+    // Restoring appends a copy of the old version, so the history itself is never rewritten.
+    const restoreToolVersion = async (toolId: number, version: ToolVersion, versionNumber: number): Promise<ToolVersion[]> => {
+        if (!state.wpConfig) throw new Error('Not connected to WordPress.');
+        // Versions saved before normalization existed are normalized on the way back in.
+        return wordpressService.saveCfToolVersion(state.wpConfig, toolId, normalizeSnippet(version.snippet), {
+            provider: version.provider,
+            model: version.model,
+            note: `Restored v${versionNumber}`,
+        });
+    };
+
     const value = {
         state,
         dispatch,
         setTheme,
         setProvider,
         setApiKey,
-        setOpenRouterModel,
+        setProviderModel,
+        setProviderBaseUrl,
         validateAndSaveApiKey,
         connectToWordPress,
         retryConnection,
         reset,
-        setPostSearchQuery,
         setPostSortOrder,
+        setPostQuery,
         deleteSnippet,
         runOpportunityAnalysis,
+        cancelOpportunityAnalysis,
+        scanEntireSite,
+        pauseSiteScan,
+        discardSiteScan,
+        setScoringProfiles,
+        startBatchGeneration,
+        pickBatchIdea,
+        retryBatchItem,
+        approveBatchItem,
+        rejectBatchItem,
+        cancelBatchGeneration,
+        clearBatchJob,
         insertSnippet,
         fetchMorePosts,
         refreshTool,
+        acceptRefresh,
+        discardRefresh,
+        cancelRefreshTool,
+        fetchToolVersions,
+        restoreToolVersion,
+        recordUsage,
     };
 
     return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 };
 
+/**
+ * Collects what the AI service needs to reach a provider from the current state.
+ */
+export const getProviderCredentials = (state: AppState, provider: AiProvider): ProviderCredentials => ({
+    apiKey: state.apiKeys[provider],
+    baseUrl: state.providerBaseUrls[provider],
+});
+
 // --- HOOK ---
 export const useAppContext = (): AppContextType => {
   const context = useContext(AppContext);
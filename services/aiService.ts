@@ -1,5 +1,30 @@
-import { GoogleGenAI, Type } from '@google/genai';
-import { AiProvider, WordPressPost, ToolIdea } from '../types';
+import { Type, Schema } from '@google/genai';
+import { AiProvider, WordPressPost, ToolIdea, AiOperation, AutoFixAttempt, TokenUsage, UsageRecord, ChatMessage, ScoringProfile } from '../types';
+import { estimateCost } from '../constants';
+import { getProvider } from './providers/registry';
+import { ProviderCredentials } from './providers/types';
+import { getRetryAfterMs } from './providers/errors';
+import { validateAgainstSchema } from './schemaValidator';
+import { acquireSlot, pauseProvider, schedule } from './requestScheduler';
+import { buildPostDigest } from './postDigestService';
+import { buildRubricPrompt } from './scoringProfileService';
+
+/**
+ * Receives one priced record per completed AI call, including retries and repair attempts.
+ */
+export type UsageListener = (record: UsageRecord) => void;
+
+// Turns the raw token counts an adapter reports into priced records for `onUsage`.
+function trackUsage(
+    provider: AiProvider,
+    model: string,
+    operation: AiOperation,
+    postIds: number[],
+    onUsage?: UsageListener,
+): ((usage: TokenUsage) => void) | undefined {
+    if (!onUsage) return undefined;
+    return usage => onUsage({ ...usage, provider, model, operation, postIds, cost: estimateCost(provider, model, usage) });
+}
 
 /**
  * A robust, multi-stage parser to handle various JSON response formats from different LLMs.
@@ -35,102 +60,193 @@ function parseJsonResponse<T>(text: string | undefined | null): T {
     }
 }
 
-// Helper: Autonomous Retry Logic with Exponential Backoff
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+/**
+ * Whether an error was caused by an AbortSignal firing, i.e. the user cancelled the operation.
+ */
+export function isAbortError(error: any): boolean {
+    return error?.name === 'AbortError';
+}
+
+// Waits for `ms`, rejecting early with an AbortError if the signal fires.
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// A server-requested wait longer than this means the quota is exhausted, not briefly exceeded.
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Runs a provider call through the rate-limit scheduler, retrying transient failures.
+ * A 429 pauses every queued request for the provider for its `Retry-After` (or the backoff delay);
+ * other failures back off exponentially with jitter so parallel batches don't retry in lockstep.
+ */
+async function withRetry<T>(provider: AiProvider, fn: () => Promise<T>, signal?: AbortSignal, retries = 3, delay = 1000): Promise<T> {
     try {
-        return await fn();
+        return await schedule(provider, fn, signal);
     } catch (error: any) {
-        if (retries === 0) throw error;
+        if (retries === 0 || isAbortError(error)) throw error;
         
-        // Don't retry on auth errors (401) or bad requests (400)
-        if (error.status === 401 || error.status === 400 || error.message?.includes('API key')) throw error;
-        
-        console.warn(`API call failed, retrying in ${delay}ms... (${retries} left). Error: ${error.message}`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return withRetry(fn, retries - 1, delay * 2);
-    }
-}
+        // Don't retry on auth errors, bad requests or unknown models
+        if ([400, 401, 403, 404].includes(error.status) || error.message?.includes('API key')) throw error;
 
-// Helper to initialize the Gemini client
-const getGeminiClient = (apiKey: string): GoogleGenAI => {
-    // Guideline: The API key must be obtained exclusively from the environment variable process.env.API_KEY.
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
+        const retryAfter = getRetryAfterMs(error);
+        if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) throw error;
 
-const getProviderConfig = (provider: AiProvider, apiKey: string): { url: string, headers: Record<string, string> } => {
-    switch (provider) {
-        case AiProvider.OpenAI:
-            return {
-                url: 'https://api.openai.com/v1/chat/completions',
-                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` }
-            };
-        case AiProvider.Anthropic:
-            return {
-                url: 'https://api.anthropic.com/v1/messages',
-                headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' }
-            };
-        case AiProvider.OpenRouter:
-            return {
-                url: 'https://openrouter.ai/api/v1/chat/completions',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`,
-                    'HTTP-Referer': 'https://html-snippet-ai.com',
-                    'X-Title': 'HTML Snippet AI',
-                }
-            };
-        default:
-            throw new Error(`Unsupported provider config: ${provider}`);
+        const wait = retryAfter ?? delay / 2 + Math.random() * delay / 2;
+        if (error.status === 429) pauseProvider(provider, wait);
+        
+        console.warn(`API call failed, retrying in ${Math.round(wait)}ms... (${retries} left). Error: ${error.message}`);
+        await sleep(wait, signal);
+        return withRetry(provider, fn, signal, retries - 1, delay * 2);
     }
-};
+}
 
 /**
  * Validates an API key by making a minimal call.
  */
-export async function validateApiKey(provider: AiProvider, apiKey: string, model: string): Promise<boolean> {
-    // For Gemini, apiKey argument is ignored as we use process.env.API_KEY
-    if (provider !== AiProvider.Gemini && !apiKey) return false;
-    
+export async function validateApiKey(provider: AiProvider, credentials: ProviderCredentials, model: string, signal?: AbortSignal): Promise<boolean> {
     try {
-        return await withRetry(async () => {
-            if (provider === AiProvider.Gemini) {
-                const ai = getGeminiClient(apiKey);
-                await ai.models.generateContent({
-                    model: 'gemini-3-flash-preview',
-                    contents: 'h', 
-                    // Guideline: If maxOutputTokens is set, thinkingBudget must be set or used with 0 to disable thinking.
-                    config: { maxOutputTokens: 1, thinkingConfig: { thinkingBudget: 0 } }
-                });
-                return true;
-            }
-            
-            const config = getProviderConfig(provider, apiKey);
-            let body;
-            const payload = { model: model, messages: [{ role: 'user', content: 'Hi' }], max_tokens: 1 };
-            body = JSON.stringify(payload);
-
-            const response = await fetch(config.url, { method: 'POST', headers: config.headers, body: body });
-            return response.ok;
-        });
+        const adapter = getProvider(provider);
+        return await withRetry(provider, () => adapter.validate({ ...credentials, model, signal }), signal);
     } catch (error) {
         console.error(`API key validation failed for ${provider}:`, error);
         return false;
     }
 }
 
-// SOTA Performance: Adaptive Batch Size & Concurrency
+const SCORES_RESPONSE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        posts: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.INTEGER },
+                    opportunityScore: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+                    opportunityRationale: { type: Type.STRING, minLength: '1' },
+                    opportunitySignals: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ["id", "opportunityScore", "opportunityRationale", "opportunitySignals"],
+            }
+        }
+    },
+    required: ["posts"],
+};
+
+const IDEAS_RESPONSE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        ideas: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING, minLength: '1' },
+                    description: { type: Type.STRING, minLength: '1' },
+                    icon: { type: Type.STRING, enum: ["calculator", "chart", "list", "idea"] },
+                },
+                required: ["title", "description", "icon"],
+            },
+            minItems: '1',
+        }
+    },
+    required: ["ideas"],
+};
+
+interface ScoresResponse {
+    posts: { id: number; opportunityScore: number; opportunityRationale: string; opportunitySignals: string[] }[];
+}
+
+interface IdeasResponse {
+    ideas: ToolIdea[];
+}
+
+// How many times a malformed JSON response is sent back to the model for correction.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Requests JSON from a provider and validates it against `schema` plus any extra `check`.
+ * When the response does not parse or validate, the model is re-prompted with its previous
+ * output and the exact errors, up to MAX_REPAIR_ATTEMPTS times, before giving up.
+ * @throws An error listing the remaining validation errors if every repair attempt fails.
+ */
+async function completeValidatedJson<T>(
+    provider: AiProvider,
+    credentials: ProviderCredentials,
+    model: string,
+    prompt: string,
+    schema: Schema,
+    check: (value: T) => string[] = () => [],
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void,
+): Promise<T> {
+    const adapter = getProvider(provider);
+    let currentPrompt = prompt;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const rawContent = await withRetry(
+            provider,
+            () => adapter.completeJson({ ...credentials, model, prompt: currentPrompt, responseSchema: schema, signal, onUsage }),
+            signal
+        );
+        try {
+            const parsed = parseJsonResponse<T>(rawContent);
+            errors = validateAgainstSchema(parsed, schema);
+            if (errors.length === 0) errors = check(parsed);
+            if (errors.length === 0) return parsed;
+        } catch (parseError: any) {
+            errors = [parseError.message];
+        }
+
+        console.warn(`Invalid JSON from ${provider} (attempt ${attempt + 1}):`, errors);
+        currentPrompt = `${prompt}
+
+Your previous response was:
+${String(rawContent ?? '').substring(0, 4000)}
+
+It failed validation with these errors:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Return the corrected JSON ONLY, fixing every error above.`;
+    }
+
+    throw new Error(`AI returned invalid data after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${errors.slice(0, 3).join('; ')}`);
+}
+
+// SOTA Performance: Adaptive Batch Size. Concurrency is left to the request scheduler.
 const SCORE_BATCH_SIZE = 8;
-const MAX_CONCURRENT_REQUESTS = 6; 
+
+// Tokens of body summary sent per post; 8 posts stay around 2k input tokens.
+const SCORE_DIGEST_TOKEN_BUDGET = 250;
 
 /**
- * Analyzes posts using an adaptive parallel processing engine.
+ * Analyzes posts in parallel batches against the scoring profile's rubric, paced by the provider's rate limit.
+ * A batch that still fails after retries is reported through `onBatchFailed` and the rest carry on.
+ * Aborting `signal` cancels queued and in-flight batches; the promise then rejects with an AbortError.
  */
 export async function getOpportunityScores(
-    apiKey: string,
+    credentials: ProviderCredentials,
     provider: AiProvider,
     posts: WordPressPost[],
     model: string,
-    onProgress: (scoredPosts: Partial<WordPressPost>[]) => void
+    profile: ScoringProfile,
+    onProgress: (scoredPosts: Partial<WordPressPost>[]) => void,
+    onBatchFailed: (postIds: number[], error: string) => void,
+    signal?: AbortSignal,
+    onUsage?: UsageListener,
 ): Promise<void> {
     const postBatches: WordPressPost[][] = [];
     for (let i = 0; i < posts.length; i += SCORE_BATCH_SIZE) {
@@ -139,110 +255,64 @@ export async function getOpportunityScores(
 
     const processBatch = async (batch: WordPressPost[]) => {
         try {
-            await withRetry(async () => {
-                const postContext = batch.map(p => `{"id": ${p.id}, "title": "${p.title.rendered.replace(/"/g, '\\"').replace(/\n/g, ' ')}"}`).join(',\n');
-                const prompt = `Analyze these blog posts for "Linkable Asset" potential (SEO/AEO).
-                
-Input:
-[${postContext}]
+            const postContext = batch.map(p => JSON.stringify(buildPostDigest(p, SCORE_DIGEST_TOKEN_BUDGET))).join('\n');
+            const prompt = `Analyze these blog posts for "Linkable Asset" potential (SEO/AEO).
+Judge each post by its content, not only its title: a vague title over a pricing table or a formula is still a strong candidate.
 
-Criteria:
-- Score 90-100: High-intent "How-to", "Calculator", "Visualizer" topics. Excellent for interactive assets.
-- Score 0-20: News, Updates, Personal Stories (Low utility).
+Input (one post per line: title, section headings, numeric tables, formulas, count of prices/percentages, opening text):
+${postContext}
+
+${buildRubricPrompt(profile)}
+
+In "opportunitySignals", list the 1-4 content signals that drove each score, in a few words each (e.g. "pricing table", "loan payment formula").
 
 Output JSON ONLY:
-{ "posts": [ { "id": 123, "opportunityScore": 95, "opportunityRationale": "Perfect for ROI calculator." } ] }`;
-
-                let batchScores: Partial<WordPressPost>[] = [];
-
-                if (provider === AiProvider.Gemini) {
-                    const ai = getGeminiClient(apiKey);
-                    const response = await ai.models.generateContent({
-                        model: 'gemini-3-flash-preview',
-                        contents: prompt,
-                        config: {
-                            responseMimeType: "application/json",
-                            responseSchema: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    posts: {
-                                        type: Type.ARRAY,
-                                        items: {
-                                            type: Type.OBJECT,
-                                            properties: {
-                                                id: { type: Type.INTEGER },
-                                                opportunityScore: { type: Type.INTEGER },
-                                                opportunityRationale: { type: Type.STRING },
-                                            },
-                                            required: ["id", "opportunityScore", "opportunityRationale"],
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    });
-                    // SOTA Fix: Use robust parser even for Gemini to handle edge cases
-                    const parsed = parseJsonResponse<{posts: any[]}>(response.text);
-                    batchScores = parsed.posts || [];
-                } else {
-                    const config = getProviderConfig(provider, apiKey);
-                    const body = JSON.stringify({
-                        model: model,
-                        messages: [{ role: 'user', content: prompt }],
-                        response_format: { type: 'json_object' }
-                    });
-
-                    const response = await fetch(config.url, { method: 'POST', headers: config.headers, body });
-                    if (!response.ok) throw new Error(`API Error: ${response.status}`);
-                    
-                    const data = await response.json();
-                    const rawContent = provider === AiProvider.Anthropic ? data.content?.[0]?.text : data.choices?.[0]?.message?.content;
-                    
-                    // SOTA Fix: Handle potentially undefined rawContent
-                    const parsedResult = parseJsonResponse<{posts: Partial<WordPressPost>[] }>(rawContent);
-                    batchScores = parsedResult.posts || [];
-                }
-                
-                onProgress(batchScores);
-            });
-        } catch (error) {
+{ "posts": [ { "id": 123, "opportunityScore": 95, "opportunityRationale": "Perfect for ROI calculator.", "opportunitySignals": ["ROI formula", "pricing table"] } ] }`;
+
+            // Every score must belong to a post in this batch, and every post must be scored.
+            const checkBatchIds = ({ posts: scores }: ScoresResponse): string[] => {
+                const batchIds = new Set(batch.map(p => p.id));
+                const returnedIds = new Set(scores.map(s => s.id));
+                const unknown = scores.filter(s => !batchIds.has(s.id)).map(s => s.id);
+                const missing = batch.filter(p => !returnedIds.has(p.id)).map(p => p.id);
+                const errors: string[] = [];
+                if (unknown.length > 0) errors.push(`$.posts: ids ${unknown.join(', ')} are not in the input`);
+                if (missing.length > 0) errors.push(`$.posts: missing scores for ids ${missing.join(', ')}`);
+                return errors;
+            };
+
+            const { posts: batchScores } = await completeValidatedJson<ScoresResponse>(
+                provider, credentials, model, prompt, SCORES_RESPONSE_SCHEMA, checkBatchIds, signal,
+                trackUsage(provider, model, 'scoring', batch.map(p => p.id), onUsage)
+            );
+            // Don't report results that arrive after the user stopped the analysis.
+            if (!signal?.aborted) onProgress(batchScores);
+        } catch (error: any) {
+            if (isAbortError(error) || signal?.aborted) return;
             console.error(`Batch failed after retries:`, error);
+            onBatchFailed(batch.map(p => p.id), error.message || 'Scoring failed.');
         }
     };
 
-    const queue = [...postBatches];
-    const activeWorkers = new Set<Promise<void>>();
+    await Promise.all(postBatches.map(processBatch));
 
-    while (queue.length > 0 || activeWorkers.size > 0) {
-        while (queue.length > 0 && activeWorkers.size < MAX_CONCURRENT_REQUESTS) {
-            const batch = queue.shift()!;
-            const worker = processBatch(batch).then(() => {
-                activeWorkers.delete(worker);
-            });
-            activeWorkers.add(worker);
-        }
-        
-        if (activeWorkers.size > 0) {
-            await Promise.race(activeWorkers);
-        } else {
-            break;
-        }
-    }
+    signal?.throwIfAborted();
 }
 
 /**
  * Generates tool ideas using high-context prompting.
  */
 export async function generateToolIdeas(
-    apiKey: string,
+    credentials: ProviderCredentials,
     provider: AiProvider,
     post: WordPressPost,
     model: string,
+    signal?: AbortSignal,
+    onUsage?: UsageListener,
 ): Promise<ToolIdea[]> {
     const cleanContent = post.content.rendered.replace(/<[^>]*>?/gm, '').substring(0, 3000);
     
-    return await withRetry(async () => {
-        const prompt = `Act as a World-Class SEO & AEO (Answer Engine Optimization) Strategist. 
+    const prompt = `Act as a World-Class SEO & AEO (Answer Engine Optimization) Strategist. 
 Analyze this content to find "Linkable Asset" opportunities that define the industry standard.
 
 Title: "${post.title.rendered}"
@@ -257,51 +327,11 @@ Output JSON:
 { "ideas": [ { "title": "Interactive Mortgage Visualizer", "description": "A dynamic chart showing principal vs interest over 30 years.", "icon": "chart" } ] }
 Icons: "calculator", "chart", "list", "idea"`;
         
-        if (provider === AiProvider.Gemini) {
-            const ai = getGeminiClient(apiKey);
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            ideas: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        title: { type: Type.STRING },
-                                        description: { type: Type.STRING },
-                                        icon: { type: Type.STRING },
-                                    },
-                                    required: ["title", "description", "icon"],
-                                }
-                            }
-                        }
-                    }
-                }
-            });
-            const parsed = parseJsonResponse<{ ideas: ToolIdea[] }>(response.text);
-            return parsed.ideas;
-        }
-
-        const config = getProviderConfig(provider, apiKey);
-        const body = JSON.stringify({
-            model: model,
-            messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' }
-        });
-
-        const response = await fetch(config.url, { method: 'POST', headers: config.headers, body });
-        if (!response.ok) throw new Error(`API Error: ${response.status}`);
-        const data = await response.json();
-        const rawContent = provider === AiProvider.Anthropic ? data.content?.[0]?.text : data.choices?.[0]?.message?.content;
-        
-        // SOTA Fix: Handle potentially undefined rawContent
-        return parseJsonResponse<{ ideas: ToolIdea[] }>(rawContent).ideas || [];
-    });
+    const { ideas } = await completeValidatedJson<IdeasResponse>(
+        provider, credentials, model, prompt, IDEAS_RESPONSE_SCHEMA, undefined, signal,
+        trackUsage(provider, model, 'ideation', [post.id], onUsage)
+    );
+    return ideas;
 }
 
 /**
@@ -320,9 +350,11 @@ function cleanStreamChunk(chunk: string | undefined | null, isFirstChunk: boolea
 
 async function* generateStream(
     provider: AiProvider, 
-    apiKey: string, 
+    credentials: ProviderCredentials, 
     modelForProvider: string,
-    prompt: string
+    prompt: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void,
 ): AsyncGenerator<string, void, unknown> {
     const model = modelForProvider;
     
@@ -345,95 +377,78 @@ AEO & SEO MANDATES:
 - Inject a <script type="application/ld+json"> block with 'SoftwareApplication' schema.`;
 
     let isFirstChunk = true;
+    // Streams are not retried, but they still count against the provider's limits while open.
+    const release = await acquireSlot(provider, signal);
+    try {
+        const stream = getProvider(provider).streamText({ ...credentials, model, prompt, systemInstruction, signal, onUsage });
 
-    if (provider === AiProvider.Gemini) {
-        const ai = getGeminiClient(apiKey);
-        const responseStream = await ai.models.generateContentStream({ 
-            model, 
-            contents: prompt,
-            config: {
-                systemInstruction: systemInstruction
-            }
-        });
-        for await (const chunk of responseStream) {
-            // SOTA Fix: Handle undefined chunk.text safely
-            const text = cleanStreamChunk(chunk.text, isFirstChunk);
-            if (text) {
-                yield text;
+        for await (const textChunk of stream) {
+            signal?.throwIfAborted();
+            const cleanChunk = cleanStreamChunk(textChunk, isFirstChunk);
+            if (cleanChunk) {
+                yield cleanChunk;
                 isFirstChunk = false;
             }
         }
-        return;
-    }
-
-    const config = getProviderConfig(provider, apiKey);
-    let body;
-    const messages = [{ role: 'user', content: prompt }];
-
-    if (provider === AiProvider.Anthropic) {
-        body = JSON.stringify({
-            model,
-            system: systemInstruction,
-            messages,
-            stream: true,
-            max_tokens: 4096,
-        });
-    } else {
-        body = JSON.stringify({ 
-            model, 
-            messages: [{ role: 'system', content: systemInstruction }, ...messages], 
-            stream: true 
-        });
+    } finally {
+        release();
     }
+}
 
-    const response = await fetch(config.url, { method: 'POST', headers: config.headers, body });
-    if (!response.ok || !response.body) throw new Error(`API Stream Error: ${response.status}`);
+/**
+ * Turns on generateSnippet's auto-fix mode: each finished version is checked and, while problems remain,
+ * sent back to the model with them to be patched.
+ */
+export interface AutoFixOptions {
+    maxAttempts: number; // Fixes to try after the first generation
+    // Returns what is wrong with a finished snippet; an empty list means it passed.
+    check: (snippet: string, signal?: AbortSignal) => Promise<string[]>;
+    onAttempt: (attempt: AutoFixAttempt) => void;
+}
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-            if (!line.startsWith('data: ')) continue;
-            const data = line.substring(6);
-            if (data.trim() === '[DONE]') return;
-            try {
-                const parsed = JSON.parse(data);
-                let textChunk = '';
-                if (provider === AiProvider.Anthropic) {
-                    if (parsed.type === 'content_block_delta') textChunk = parsed.delta.text;
-                } else {
-                    if (parsed.choices?.[0]?.delta?.content) textChunk = parsed.choices[0].delta.content;
-                }
-                
-                if (textChunk) {
-                     const cleanChunk = cleanStreamChunk(textChunk, isFirstChunk);
-                     if (cleanChunk) {
-                        yield cleanChunk;
-                        isFirstChunk = false;
-                     }
-                }
-            } catch (e) { }
+/**
+ * Passes a generation through, then checks it and streams fixes until it passes or the attempts run out.
+ * Every attempt is streamed whole; onAttempt reports 'generating' before a new one starts so the
+ * consumer knows to drop the previous version.
+ */
+async function* streamWithAutoFix(
+    firstStream: AsyncGenerator<string, void, unknown>,
+    fix: (snippet: string, problems: string[]) => Promise<AsyncGenerator<string, void, unknown>>,
+    options: AutoFixOptions,
+    signal?: AbortSignal,
+): AsyncGenerator<string, void, unknown> {
+    let stream = firstStream;
+    for (let attempt = 0; ; attempt++) {
+        options.onAttempt({ attempt, status: 'generating', problems: [] });
+        let snippet = '';
+        for await (const chunk of stream) {
+            snippet += chunk;
+            yield chunk;
         }
+
+        options.onAttempt({ attempt, status: 'checking', problems: [] });
+        const problems = await options.check(snippet, signal);
+        signal?.throwIfAborted();
+        const passed = problems.length === 0;
+        options.onAttempt({ attempt, status: passed ? 'passed' : 'failed', problems });
+        if (passed || attempt >= options.maxAttempts) return;
+        stream = await fix(snippet, problems);
     }
 }
 
 /**
  * Generates a Professional Grade SOTA Snippet optimized for SEO, AEO, and GEO.
+ * With autoFix, failing versions are patched and re-checked before the stream ends.
  */
 export async function generateSnippet(
-    apiKey: string,
+    credentials: ProviderCredentials,
     provider: AiProvider,
     post: WordPressPost,
     idea: ToolIdea,
     model: string,
+    signal?: AbortSignal,
+    onUsage?: UsageListener,
+    autoFix?: AutoFixOptions,
 ): Promise<AsyncGenerator<string, void, unknown>> {
     // SOTA PROMPT: Force self-contained styling for any WordPress theme.
     const prompt = `Task: Build a "Linkable Asset" HTML5 Tool.
@@ -460,20 +475,98 @@ Specs:
 
 IMPORTANT: Output RAW CODE ONLY. Start immediately with <!DOCTYPE html>.`;
 
-    // For complex coding tasks on Gemini, use the Pro model.
-    const activeModel = provider === AiProvider.Gemini ? 'gemini-3-pro-preview' : model;
-    return generateStream(provider, apiKey, activeModel, prompt);
+    const stream = generateStream(provider, credentials, model, prompt, signal, trackUsage(provider, model, 'snippet', [post.id], onUsage));
+    if (!autoFix) return stream;
+    return streamWithAutoFix(stream, (snippet, problems) => fixSnippet(credentials, provider, post, snippet, problems, model, signal, onUsage), autoFix, signal);
+}
+
+/**
+ * Asks the model to repair a snippet that failed validation or the smoke test, given the exact problems found.
+ */
+export async function fixSnippet(
+    credentials: ProviderCredentials,
+    provider: AiProvider,
+    post: WordPressPost,
+    brokenSnippet: string,
+    problems: string[],
+    model: string,
+    signal?: AbortSignal,
+    onUsage?: UsageListener,
+): Promise<AsyncGenerator<string, void, unknown>> {
+    const prompt = `Task: Fix this HTML tool. Automated checks found the problems listed below.
+
+Context: "${post.title.rendered}"
+
+Problems:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Current Code:
+${brokenSnippet}
+
+Rules:
+1. Fix every listed problem; keep everything else unchanged.
+2. Runtime errors come from loading the tool and filling every input with sample values, so results must stay valid for any input.
+3. Keep the Vanilla CSS, <output> tags and JSON-LD schema intact.
+4. Output the COMPLETE fixed document, not a diff.
+
+Output: RAW HTML ONLY. Start with <!DOCTYPE html>.`;
+
+    return generateStream(provider, credentials, model, prompt, signal, trackUsage(provider, model, 'autofix', [post.id], onUsage));
+}
+
+/**
+ * Revises a generated snippet according to a chat instruction, e.g. "add a currency selector".
+ * The model sees the earlier turns and the current code (including manual edits) and streams
+ * the complete revised document.
+ */
+export async function refineSnippet(
+    credentials: ProviderCredentials,
+    provider: AiProvider,
+    post: WordPressPost,
+    currentSnippet: string,
+    history: ChatMessage[],
+    instruction: string,
+    model: string,
+    signal?: AbortSignal,
+    onUsage?: UsageListener,
+): Promise<AsyncGenerator<string, void, unknown>> {
+    const conversation = history.length > 0
+        ? history.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n')
+        : '(none)';
+
+    const prompt = `Task: Revise this HTML tool according to the latest request.
+
+Context: "${post.title.rendered}"
+
+Earlier requests in this conversation:
+${conversation}
+
+Latest request: "${instruction}"
+
+Current Code:
+${currentSnippet}
+
+Rules:
+1. Apply the latest request; keep everything it does not mention unchanged.
+2. Keep the Vanilla CSS, <output> tags and JSON-LD schema intact.
+3. Output the COMPLETE revised document, not a diff.
+
+Output: RAW HTML ONLY. Start with <!DOCTYPE html>.`;
+
+    return generateStream(provider, credentials, model, prompt, signal, trackUsage(provider, model, 'refinement', [post.id], onUsage));
 }
 
 /**
  * Refreshes a snippet with the same high standards.
  */
 export async function refreshSnippet(
-    apiKey: string,
+    credentials: ProviderCredentials,
     provider: AiProvider,
     post: WordPressPost,
     oldSnippet: string,
     model: string,
+    signal?: AbortSignal,
+    onUsage?: UsageListener,
 ): Promise<AsyncGenerator<string, void, unknown>> {
     const prompt = `Task: Upgrade this HTML tool to 2025 Professional SEO Standards.
 
@@ -488,7 +581,5 @@ ${oldSnippet.substring(0, 1500)}...
 
 Output: RAW HTML ONLY. Start with <!DOCTYPE html>.`;
 
-    // For complex coding tasks on Gemini, use the Pro model.
-    const activeModel = provider === AiProvider.Gemini ? 'gemini-3-pro-preview' : model;
-    return generateStream(provider, apiKey, activeModel, prompt);
+    return generateStream(provider, credentials, model, prompt, signal, trackUsage(provider, model, 'refresh', [post.id], onUsage));
 }
\ No newline at end of file
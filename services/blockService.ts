@@ -0,0 +1,129 @@
+import { WordPressPost } from '../types';
+import { SHORTCODE_DETECTION_REGEX, SHORTCODE_REMOVAL_REGEX } from '../constants';
+
+/**
+ * A top-level Gutenberg block in a post's raw content.
+ * Runs of HTML outside any block (classic content) are returned as blocks with a `null` name.
+ */
+export interface ParsedBlock {
+    name: string | null; // e.g. 'core/paragraph'
+    attrs: Record<string, any>;
+    start: number; // Offset of the opening block comment
+    end: number; // Offset just after the closing block comment
+    innerHTML: string;
+}
+
+// Matches block delimiters: <!-- wp:name {"attrs"} -->, <!-- /wp:name --> and void <!-- wp:name /-->.
+const BLOCK_DELIMITER_REGEX = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*(?:\/[a-z][a-z0-9_-]*)?)\s+(\{[\s\S]*?\}\s+)?(\/)?-->/g;
+
+const normalizeBlockName = (name: string) => (name.includes('/') ? name : `core/${name}`);
+
+const parseAttrs = (json: string | undefined): Record<string, any> => {
+    if (!json) return {};
+    try {
+        return JSON.parse(json);
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Returns the content to edit for a post: the raw block markup when it was fetched with `context=edit`,
+ * otherwise the rendered HTML.
+ */
+export const getEditableContent = (post: WordPressPost): string => post.content.raw ?? post.content.rendered;
+
+/**
+ * Whether the content was written in the block editor (as opposed to the classic editor).
+ */
+export const isBlockContent = (content: string): boolean => /<!--\s+wp:/.test(content);
+
+/**
+ * Splits raw post content into its top-level blocks. Inner blocks stay part of their parent's innerHTML.
+ */
+export function parseBlocks(content: string): ParsedBlock[] {
+    const blocks: ParsedBlock[] = [];
+    const regex = new RegExp(BLOCK_DELIMITER_REGEX.source, 'g');
+    let depth = 0;
+    let cursor = 0; // End of the last top-level block
+    let open: { name: string; attrs: Record<string, any>; start: number; innerStart: number } | null = null;
+    let match: RegExpExecArray | null;
+
+    const pushFreeform = (from: number, to: number) => {
+        const html = content.slice(from, to);
+        if (html.trim()) blocks.push({ name: null, attrs: {}, start: from, end: to, innerHTML: html });
+    };
+
+    while ((match = regex.exec(content))) {
+        const [delimiter, isCloser, rawName, attrsJson, isVoid] = match;
+        const end = match.index + delimiter.length;
+
+        if (isCloser) {
+            depth = Math.max(0, depth - 1);
+            if (depth === 0 && open) {
+                blocks.push({ name: open.name, attrs: open.attrs, start: open.start, end, innerHTML: content.slice(open.innerStart, match.index) });
+                open = null;
+                cursor = end;
+            }
+            continue;
+        }
+        if (depth > 0) {
+            if (!isVoid) depth++;
+            continue;
+        }
+
+        pushFreeform(cursor, match.index);
+        if (isVoid) {
+            blocks.push({ name: normalizeBlockName(rawName), attrs: parseAttrs(attrsJson), start: match.index, end, innerHTML: '' });
+            cursor = end;
+        } else {
+            open = { name: normalizeBlockName(rawName), attrs: parseAttrs(attrsJson), start: match.index, innerStart: end };
+            depth = 1;
+        }
+    }
+
+    // An unclosed block runs to the end of the content.
+    if (open) {
+        blocks.push({ name: open.name, attrs: open.attrs, start: open.start, end: content.length, innerHTML: content.slice(open.innerStart) });
+    } else {
+        pushFreeform(cursor, content.length);
+    }
+    return blocks;
+}
+
+/**
+ * Serializes the connector's dynamic `contentforge/tool` block, which the editor can move and preview.
+ */
+export const serializeToolBlock = (toolId: number): string =>
+    `<!-- wp:contentforge/tool ${JSON.stringify({ toolId })} /-->`;
+
+// A tool block, or a block whose only content is a tool shortcode (in a shortcode block or a paragraph).
+const isToolBlock = (block: ParsedBlock): boolean => {
+    if (block.name === 'contentforge/tool') return true;
+    if (block.name !== 'core/shortcode' && block.name !== 'core/paragraph') return false;
+    const text = block.innerHTML.replace(/<\/?p[^>]*>/gi, '').trim();
+    const match = text.match(SHORTCODE_DETECTION_REGEX);
+    return !!match && match[0].length === text.length;
+};
+
+/**
+ * Removes every tool from post content. In block content, tool blocks and blocks holding only the
+ * shortcode are dropped so no empty blocks are left behind; stray shortcodes elsewhere are stripped.
+ */
+export function removeToolShortcodes(content: string): string {
+    if (!isBlockContent(content)) return content.replace(SHORTCODE_REMOVAL_REGEX, '');
+
+    let result = '';
+    let cursor = 0;
+    for (const block of parseBlocks(content)) {
+        if (!isToolBlock(block)) continue;
+        // Take the blank line that separated the block from the previous one with it.
+        result += content.slice(cursor, block.start).replace(/\s*$/, '');
+        cursor = block.end;
+        if (!result) {
+            while (cursor < content.length && /\s/.test(content[cursor])) cursor++;
+        }
+    }
+    result += content.slice(cursor);
+    return result.replace(SHORTCODE_REMOVAL_REGEX, '');
+}
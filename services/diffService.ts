@@ -0,0 +1,67 @@
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+    oldLine?: number; // 1-based line number in the old text; absent for added lines
+    newLine?: number; // 1-based line number in the new text; absent for removed lines
+}
+
+// Beyond this many lines on each side, the quadratic LCS table gets too large for the browser.
+const MAX_DIFF_LINES = 3000;
+
+/**
+ * Computes a line-based diff using the longest common subsequence.
+ * Lines present only in `oldText` are 'removed', lines only in `newText` are 'added'.
+ * Inputs larger than MAX_DIFF_LINES fall back to showing every line as replaced.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+        return [
+            ...a.map((text, i): DiffLine => ({ type: 'removed', text, oldLine: i + 1 })),
+            ...b.map((text, i): DiffLine => ({ type: 'added', text, newLine: i + 1 })),
+        ];
+    }
+
+    // lcs[i * width + j] is the LCS length of a[i..] and b[j..].
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i], oldLine: i + 1, newLine: j + 1 });
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+            result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+            i++;
+        } else {
+            result.push({ type: 'added', text: b[j], newLine: j + 1 });
+            j++;
+        }
+    }
+    for (; i < a.length; i++) result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+    for (; j < b.length; j++) result.push({ type: 'added', text: b[j], newLine: j + 1 });
+    return result;
+}
+
+/**
+ * Counts added and removed lines, e.g. for a "+12 −4" summary.
+ */
+export function summarizeDiff(lines: DiffLine[]): { added: number; removed: number } {
+    return {
+        added: lines.filter(l => l.type === 'added').length,
+        removed: lines.filter(l => l.type === 'removed').length,
+    };
+}
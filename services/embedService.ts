@@ -0,0 +1,179 @@
+const DOCUMENT_MARKUP_REGEX = /<!doctype|<(html|head|body)[\s>]/i;
+
+/**
+ * Whether a snippet is a complete HTML document rather than a fragment.
+ */
+export const isFullDocument = (snippet: string): boolean => DOCUMENT_MARKUP_REGEX.test(snippet);
+
+// Head elements the tool still needs once it sits in a post; the title, meta tags and the like are dropped.
+const isKeptHeadElement = (element: Element): boolean =>
+  element.tagName === 'STYLE' ||
+  element.tagName === 'SCRIPT' ||
+  (element.tagName === 'LINK' && /\bstylesheet\b/i.test(element.getAttribute('rel') ?? ''));
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * Turns a full document into markup that can be embedded in a post: the head's styles and scripts
+ * (including JSON-LD) come first, then the body content. Body attributes such as a class move to a wrapping div.
+ * Fragments are returned as they are.
+ */
+export function toEmbeddableFragment(snippet: string): string {
+  const html = snippet.replace(/```html/gi, '').replace(/```/g, '').trim();
+  if (!isFullDocument(html)) return html;
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const headElements = Array.from(doc.head.children).filter(isKeptHeadElement).map(element => element.outerHTML);
+  const bodyAttributes = Array.from(doc.body.attributes).map(attr => `${attr.name}="${escapeAttribute(attr.value)}"`).join(' ');
+  const body = doc.body.innerHTML.trim();
+  return [...headElements, bodyAttributes ? `<div ${bodyAttributes}>\n${body}\n</div>` : body].join('\n');
+}
+
+const ROOT_CLASS_PREFIX = 'cf-tool-';
+const NORMALIZED_REGEX = new RegExp(`^<div class="${ROOT_CLASS_PREFIX}[a-z0-9]+">`);
+const PAGE_SELECTOR_REGEX = /^(?::root|html|body)(?![\w-])/i;
+// At-rules whose blocks hold ordinary style rules; others (@keyframes, @font-face, ...) are left alone.
+const NESTING_AT_RULES = /^@(media|supports|container|layer|document)\b/i;
+
+// Splits on top-level commas only, so `:is(a, b)` stays in one piece.
+function splitSelectorList(selectors: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selectors.length; i++) {
+    const char = selectors[i];
+    if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(selectors.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selectors.slice(start));
+  return parts;
+}
+
+// `.x` becomes `.root .x`; page-level selectors (`:root`, `html`, `body`) become the root itself.
+function scopeSelector(selector: string, scope: string): string {
+  const trimmed = selector.trim();
+  if (!trimmed) return trimmed;
+  const page = PAGE_SELECTOR_REGEX.exec(trimmed);
+  if (!page) return `${scope} ${trimmed}`;
+  const rest = trimmed.slice(page[0].length);
+  // `html body .x` collapses onto the root as well.
+  if (/^\s/.test(rest) && PAGE_SELECTOR_REGEX.test(rest.trimStart())) return scopeSelector(rest, scope);
+  return scope + rest;
+}
+
+/**
+ * Prefixes every selector in a stylesheet with `scope`, descending into @media and similar blocks.
+ */
+function scopeCss(css: string, scope: string): string {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let result = '';
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf('{', i);
+    const semicolon = source.indexOf(';', i);
+    // Statements such as @import or @charset have no block.
+    if (open === -1 || (semicolon !== -1 && semicolon < open && source.slice(i, semicolon).trim().startsWith('@'))) {
+      const end = open === -1 ? source.length : semicolon + 1;
+      result += source.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    let depth = 1;
+    let close = open + 1;
+    for (; close < source.length && depth > 0; close++) {
+      if (source[close] === '{') depth++;
+      else if (source[close] === '}') depth--;
+    }
+    const prelude = source.slice(i, open);
+    const block = source.slice(open + 1, close - 1);
+    const head = prelude.trim();
+    if (head.startsWith('@')) {
+      result += NESTING_AT_RULES.test(head) ? `${prelude}{${scopeCss(block, scope)}}` : `${prelude}{${block}}`;
+    } else {
+      result += `\n${splitSelectorList(head).map(selector => scopeSelector(selector, scope)).join(', ')} {${block}}`;
+    }
+    i = close;
+  }
+  return result.trim();
+}
+
+const isExecutableScript = (script: HTMLScriptElement) =>
+  !script.src && ['', 'text/javascript', 'application/javascript'].includes((script.getAttribute('type') ?? '').trim().toLowerCase());
+
+/**
+ * Moves inline event handler attributes (onclick="calculate()") into script code, since functions they call
+ * are no longer globals once the script is wrapped. Returns the binding code.
+ */
+function extractInlineHandlers(content: DocumentFragment): string {
+  const bindings: string[] = [];
+  let elementCount = 0;
+  content.querySelectorAll('*').forEach(element => {
+    const handlers = Array.from(element.attributes).filter(attr => attr.name.startsWith('on'));
+    if (handlers.length === 0) return;
+    const id = String(elementCount++);
+    element.setAttribute('data-cf-handler', id);
+    for (const attr of handlers) {
+      element.removeAttribute(attr.name);
+      bindings.push(`__cfBind('${id}', ${JSON.stringify(attr.name.slice(2))}, function (event) {\n    if ((function () {\n${attr.value}\n    }).call(this, event) === false) event.preventDefault();\n  });`);
+    }
+  });
+  return bindings.join('\n  ');
+}
+
+// Wraps the tool's code in one IIFE that also re-attaches any inline handlers inside the tool's root.
+function buildToolScript(code: string[], handlerBindings: string, rootClass: string): string {
+  const binder = handlerBindings ? `
+  var __cfRoot = document.querySelector('.${rootClass}');
+  function __cfBind(id, type, handler) {
+    var element = __cfRoot && __cfRoot.querySelector('[data-cf-handler="' + id + '"]');
+    if (!element) return;
+    // A body onload handler ends up on a div, where load never fires.
+    if (type === 'load' && element.tagName === 'DIV') {
+      if (document.readyState === 'complete') setTimeout(function () { handler.call(element, new Event('load')); }, 0);
+      else window.addEventListener('load', function (event) { handler.call(element, event); });
+      return;
+    }
+    element.addEventListener(type, handler);
+  }
+  ${handlerBindings}` : '';
+  return `(function () {\n${code.join('\n;\n')}\n${binder}\n})();`;
+}
+
+/**
+ * Makes a generated snippet safe to place in a post next to the theme and other tools: converts full documents
+ * to a fragment, wraps it in a div with a unique root class, prefixes every CSS selector with that class,
+ * and runs all of its scripts inside a single IIFE. Snippets that were already normalized are returned unchanged.
+ */
+export function normalizeSnippet(snippet: string): string {
+  const fragment = toEmbeddableFragment(snippet);
+  if (NORMALIZED_REGEX.test(fragment)) return fragment;
+
+  const rootClass = `${ROOT_CLASS_PREFIX}${Math.random().toString(36).slice(2, 10)}`;
+  const template = document.createElement('template');
+  template.innerHTML = fragment;
+  const { content } = template;
+
+  content.querySelectorAll('style').forEach(style => {
+    style.textContent = scopeCss(style.textContent ?? '', `.${rootClass}`);
+  });
+
+  const code: string[] = [];
+  content.querySelectorAll('script').forEach(script => {
+    if (!isExecutableScript(script)) return;
+    code.push(script.textContent ?? '');
+    script.remove();
+  });
+  const handlerBindings = extractInlineHandlers(content);
+  if (code.length > 0 || handlerBindings) {
+    const script = document.createElement('script');
+    script.textContent = buildToolScript(code, handlerBindings, rootClass);
+    content.appendChild(script);
+  }
+
+  return `<div class="${rootClass}">\n${template.innerHTML.trim()}\n</div>`;
+}
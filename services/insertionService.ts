@@ -0,0 +1,153 @@
+import { isBlockContent, parseBlocks, serializeToolBlock } from './blockService';
+
+/**
+ * One top-level element of a post, as shown in the insertion outline.
+ */
+export interface OutlineItem {
+    kind: 'heading' | 'paragraph' | 'other';
+    tag: string;
+    level?: number; // 1-6 for headings
+    text: string; // Plain-text excerpt
+    start: number; // Offset of the opening tag in the content
+    end: number; // Offset just after the closing tag
+}
+
+export type InsertionPreset = 'after_heading' | 'before_conclusion' | 'end' | 'best_match';
+
+export const INSERTION_PRESETS: Record<InsertionPreset, string> = {
+    after_heading: 'After heading N',
+    before_conclusion: 'Before the conclusion',
+    end: 'At the end',
+    best_match: 'After the best-matching paragraph',
+};
+
+const BLOCK_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'ul', 'ol', 'figure', 'table', 'blockquote', 'div', 'pre', 'section', 'hr'];
+
+const CONCLUSION_REGEX = /\b(conclusion|final thoughts|summary|wrapping up|key takeaways|takeaways|bottom line|in closing|faq)\b/i;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'your', 'you', 'this', 'that', 'from', 'are', 'how', 'what', 'can', 'will', 'into', 'over', 'a', 'an', 'of', 'to', 'in', 'on', 'is', 'it', 'by', 'or', 'as', 'at', 'be']);
+
+const toPlainText = (html: string): string =>
+    html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+// Finds where the element opened at `from` closes, accounting for nested elements with the same tag.
+function findClosingEnd(content: string, tag: string, from: number): number {
+    const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+    tagRegex.lastIndex = from;
+    let depth = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(content))) {
+        if (match[0].endsWith('/>')) continue;
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) return match.index + match[0].length;
+    }
+    return content.length;
+}
+
+// Splits classic HTML into its top-level elements, with offsets shifted by `base`.
+function buildHtmlOutline(content: string, base: number = 0): OutlineItem[] {
+    const items: OutlineItem[] = [];
+    const openTag = new RegExp(`<(${BLOCK_TAGS.join('|')})\\b[^>]*>`, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = openTag.exec(content))) {
+        const tag = match[1].toLowerCase();
+        const start = match.index;
+        const end = tag === 'hr' ? start + match[0].length : findClosingEnd(content, tag, start);
+        const headingLevel = /^h([1-6])$/.exec(tag);
+        items.push({
+            kind: headingLevel ? 'heading' : tag === 'p' ? 'paragraph' : 'other',
+            tag,
+            level: headingLevel ? Number(headingLevel[1]) : undefined,
+            text: toPlainText(content.slice(start, end)).substring(0, 140),
+            start: base + start,
+            end: base + end,
+        });
+        openTag.lastIndex = end;
+    }
+    return items;
+}
+
+/**
+ * Splits post content into its top-level elements (headings, paragraphs, lists...).
+ * Block content is outlined block by block so insertion points always fall between blocks.
+ * Text outside any element is skipped; it can't be a sensible insertion point on its own.
+ */
+export function buildOutline(content: string): OutlineItem[] {
+    if (!isBlockContent(content)) return buildHtmlOutline(content);
+
+    return parseBlocks(content).flatMap((block): OutlineItem[] => {
+        if (!block.name) return buildHtmlOutline(block.innerHTML, block.start);
+        const isHeading = block.name === 'core/heading';
+        const level = isHeading ? Number(block.attrs.level) || 2 : undefined;
+        return [{
+            kind: isHeading ? 'heading' : block.name === 'core/paragraph' ? 'paragraph' : 'other',
+            tag: isHeading ? `h${level}` : block.name === 'core/paragraph' ? 'p' : block.name.replace(/^core\//, ''),
+            level,
+            text: toPlainText(block.innerHTML).substring(0, 140),
+            start: block.start,
+            end: block.end,
+        }];
+    });
+}
+
+/**
+ * Resolves a preset rule to an offset in the content.
+ * @param headingNumber For 'after_heading': which H2 to insert after (1-based). H2s are the post's sections.
+ * @param topic For 'best_match': text describing the tool, matched against each paragraph.
+ * @returns The offset to insert at. When a preset finds no match: 'after_heading' falls back to the top of the post,
+ * 'before_conclusion' and 'best_match' to the end.
+ */
+export function resolvePreset(
+    content: string,
+    outline: OutlineItem[],
+    preset: InsertionPreset,
+    options: { headingNumber?: number; topic?: string } = {},
+): number {
+    switch (preset) {
+        case 'after_heading': {
+            const sections = outline.filter(item => item.kind === 'heading' && item.level === 2);
+            const heading = sections[(options.headingNumber ?? 1) - 1];
+            return heading ? heading.end : 0;
+        }
+        case 'before_conclusion': {
+            const conclusion = [...outline].reverse().find(item => item.kind === 'heading' && CONCLUSION_REGEX.test(item.text));
+            return conclusion ? conclusion.start : content.length;
+        }
+        case 'best_match': {
+            const topicWords = new Set(tokenize(options.topic ?? ''));
+            let best: OutlineItem | null = null;
+            let bestScore = 0;
+            for (const item of outline) {
+                if (item.kind !== 'paragraph') continue;
+                const score = tokenize(item.text).filter(word => topicWords.has(word)).length;
+                if (score > bestScore) {
+                    best = item;
+                    bestScore = score;
+                }
+            }
+            return best ? best.end : content.length;
+        }
+        case 'end':
+        default:
+            return content.length;
+    }
+}
+
+/**
+ * Inserts the tool at `offset` in the post content: as a `contentforge/tool` block in block content,
+ * or as a shortcode paragraph in classic content.
+ */
+export function insertToolAt(content: string, offset: number, toolId: number): string {
+    const position = Math.max(0, Math.min(offset, content.length));
+    const before = content.slice(0, position);
+    const after = content.slice(position);
+    if (!isBlockContent(content)) return before + `<p>[contentforge_tool id="${toolId}"]</p>` + after;
+
+    // Blocks are separated by blank lines, as the block editor saves them.
+    const block = serializeToolBlock(toolId);
+    return before.replace(/\s*$/, before.trim() ? '\n\n' : '') + block + after.replace(/^\s*/, after.trim() ? '\n\n' : '');
+}
@@ -7,17 +7,16 @@ interface CachedScore {
   id: number;
   opportunityScore: number;
   opportunityRationale: string;
+  opportunitySignals?: string[]; // Missing on scores cached before signals were reported
+  profileKey?: string; // The scoring profile the score was given under (see getProfileKey)
   timestamp: number;
 }
 
 // Store scores as a map for quick lookups
 type ScoreCache = Record<number, CachedScore>;
 
-/**
- * Retrieves all valid scores from localStorage.
- * @returns A record mapping post IDs to their cached score data.
- */
-export function getScores(): ScoreCache {
+// Every unexpired score, whatever profile it was given under.
+function readAllScores(): ScoreCache {
   try {
     const cachedItem = localStorage.getItem(CACHE_KEY);
     if (!cachedItem) return {};
@@ -32,6 +31,7 @@ export function getScores(): ScoreCache {
         validScores[postId] = score;
       }
     }
+
     
     // As a form of garbage collection, we can re-save the cache with only the valid scores.
     // This prevents the cache file from growing indefinitely with expired data.
@@ -48,13 +48,28 @@ export function getScores(): ScoreCache {
   }
 }
 
+/**
+ * Retrieves all valid scores from localStorage.
+ * @param profileKey Only scores given under this scoring profile are returned.
+ * @returns A record mapping post IDs to their cached score data.
+ */
+export function getScores(profileKey: string): ScoreCache {
+  const allScores = readAllScores();
+  const matchingScores: ScoreCache = {};
+  for (const postId in allScores) {
+    if (allScores[postId].profileKey === profileKey) matchingScores[postId] = allScores[postId];
+  }
+  return matchingScores;
+}
+
 /**
  * Adds new scores to the cache in localStorage.
  * @param newScores An array of partial post objects containing new scores to cache.
+ * @param profileKey The scoring profile the scores were given under.
  */
-export function addScores(newScores: Partial<WordPressPost>[]): void {
+export function addScores(newScores: Partial<WordPressPost>[], profileKey: string): void {
   try {
-    const existingScores = getScores();
+    const existingScores = readAllScores();
     const now = Date.now();
 
     newScores.forEach(scoreData => {
@@ -63,6 +78,8 @@ export function addScores(newScores: Partial<WordPressPost>[]): void {
           id: scoreData.id,
           opportunityScore: scoreData.opportunityScore,
           opportunityRationale: scoreData.opportunityRationale,
+          opportunitySignals: scoreData.opportunitySignals,
+          profileKey,
           timestamp: now,
         };
       }
@@ -0,0 +1,98 @@
+import { WordPressPost } from '../types';
+
+/**
+ * A compact, structured summary of a post's body, sent with the title when scoring
+ * so posts with tool-worthy content under a vague title aren't missed.
+ */
+export interface PostDigest {
+    id: number;
+    title: string;
+    headings: string[];
+    tables: string[]; // e.g. "Plan | Monthly price | Annual price (4 rows, 75% numeric)"
+    formulas: string[]; // e.g. "Monthly payment = loan amount × rate / 12"
+    figures: number; // Prices and percentages in the body
+    excerpt: string;
+}
+
+// Roughly 4 characters per token, the same estimate the mock provider uses.
+const CHARS_PER_TOKEN = 4;
+
+const MAX_HEADINGS = 12;
+const MAX_TABLES = 3;
+const MAX_FORMULAS = 3;
+const MAX_ITEM_LENGTH = 90;
+
+// A table counts as numeric when at least this share of its cells are numbers, prices or percentages.
+const NUMERIC_TABLE_SHARE = 0.25;
+
+const NUMERIC_CELL_REGEX = /^[\s$€£¥]*[-+]?\d[\d,.]*\s*(%|[kKmM]|USD|EUR)?\s*$/;
+const FIGURE_REGEX = /[$€£¥]\s?\d[\d,]*(?:\.\d+)?|\b\d+(?:\.\d+)?\s?%/g;
+// "<words> = <expression with at least one operator>", e.g. "BMI = weight / height²".
+const FORMULA_REGEX = /\b([A-Za-z][A-Za-z ()]{1,40}?)\s*=\s*([^=.;\n]{0,60}?[+\-*/×÷^][^=.;\n]{1,60})/g;
+
+const toPlainText = (html: string): string =>
+    html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&#8211;|&#8212;/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const clip = (text: string, length: number = MAX_ITEM_LENGTH) => (text.length > length ? `${text.substring(0, length - 1)}…` : text);
+
+function extractHeadings(html: string): string[] {
+    return Array.from(html.matchAll(/<h([2-4])[^>]*>([\s\S]*?)<\/h\1>/gi))
+        .map(([, , inner]) => clip(toPlainText(inner)))
+        .filter(Boolean)
+        .slice(0, MAX_HEADINGS);
+}
+
+// Describes each table that is mostly numbers by its header row and size.
+function extractNumericTables(html: string): string[] {
+    const tables: string[] = [];
+    for (const [table] of html.matchAll(/<table[\s\S]*?<\/table>/gi)) {
+        const rows = Array.from(table.matchAll(/<tr[\s\S]*?<\/tr>/gi)).map(([row]) =>
+            Array.from(row.matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(([, cell]) => toPlainText(cell))
+        );
+        const cells = rows.flat();
+        if (rows.length === 0 || cells.length === 0) continue;
+        const numericShare = cells.filter(cell => NUMERIC_CELL_REGEX.test(cell)).length / cells.length;
+        if (numericShare < NUMERIC_TABLE_SHARE) continue;
+        tables.push(clip(`${rows[0].join(' | ')} (${rows.length} rows, ${Math.round(numericShare * 100)}% numeric)`));
+        if (tables.length === MAX_TABLES) break;
+    }
+    return tables;
+}
+
+function extractFormulas(text: string): string[] {
+    const formulas = Array.from(text.matchAll(FORMULA_REGEX)).map(([, name, expression]) => clip(`${name.trim()} = ${expression.trim()}`));
+    return Array.from(new Set(formulas)).slice(0, MAX_FORMULAS);
+}
+
+/**
+ * Builds a post's digest within a token budget. Headings, numeric tables and formulas come first;
+ * whatever budget is left goes to the opening of the body text.
+ */
+export function buildPostDigest(post: WordPressPost, tokenBudget: number): PostDigest {
+    const html = post.content.rendered;
+    const text = toPlainText(html);
+    const digest: PostDigest = {
+        id: post.id,
+        title: toPlainText(post.title.rendered),
+        headings: extractHeadings(html),
+        tables: extractNumericTables(html),
+        formulas: extractFormulas(text),
+        figures: (text.match(FIGURE_REGEX) || []).length,
+        excerpt: '',
+    };
+
+    const charBudget = tokenBudget * CHARS_PER_TOKEN;
+    // Structured signals outrank headings when the budget is tight.
+    while (JSON.stringify(digest).length > charBudget && digest.headings.length > 0) {
+        digest.headings.pop();
+    }
+    const remaining = charBudget - JSON.stringify(digest).length;
+    if (remaining > 40) digest.excerpt = clip(text, remaining);
+    return digest;
+}
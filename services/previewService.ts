@@ -0,0 +1,120 @@
+import { Theme } from '../types';
+
+const hexToHsl = (hex: string): { h: number, s: number, l: number } | null => {
+    if (!hex || typeof hex !== 'string') return null;
+    let r = 0, g = 0, b = 0;
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    if(result){
+        r = parseInt(result[1], 16); g = parseInt(result[2], 16); b = parseInt(result[3], 16);
+    } else {
+        const shorthandResult = /^#?([a-f\d])([a-f\d])([a-f\d])$/i.exec(hex);
+        if(shorthandResult){
+            r = parseInt(shorthandResult[1] + shorthandResult[1], 16); g = parseInt(shorthandResult[2] + shorthandResult[2], 16); b = parseInt(shorthandResult[3] + shorthandResult[3], 16);
+        } else { return null; }
+    }
+    r /= 255; g /= 255; b /= 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    let h = 0, s = 0, l = (max + min) / 2;
+    if (max !== min) {
+        const d = max - min;
+        s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+        switch (max) {
+            case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+            case g: h = (b - r) / d + 2; break;
+            case b: h = (r - g) / d + 4; break;
+        }
+        h /= 6;
+    }
+    return { h: Math.round(h * 360), s: Math.round(s * 100), l: Math.round(l * 100) };
+}
+
+/**
+ * Wraps a generated snippet in a full document for an iframe preview: matches the app theme,
+ * and maps the accent color onto the CSS variable names the AI tends to use.
+ * Snippets that are fragments (no doctype, head or body) get a minimal document around them.
+ */
+export function buildPreviewDocument(snippet: string, theme: Theme, accentColor?: string): string {
+    let raw = snippet;
+    raw = raw.replace(/```html/gi, '').replace(/```/g, '');
+
+    let themeStyles = '';
+    const hsl = accentColor ? hexToHsl(accentColor) : null;
+    if (hsl) {
+        const baseHsl = `${hsl.h} ${hsl.s}% ${hsl.l}%`;
+        const hoverHsl = `${hsl.h} ${hsl.s}% ${Math.max(0, hsl.l - 8)}%`;
+        // Map to common variable names the AI might use
+        themeStyles = `
+            :root {
+                --accent-color: hsl(${baseHsl}) !important;
+                --primary: hsl(${baseHsl}) !important;
+                --primary-color: hsl(${baseHsl}) !important;
+                --accent-color-hover: hsl(${hoverHsl}) !important;
+                --hover: hsl(${hoverHsl}) !important;
+            }
+        `;
+    }
+
+    const bgColor = theme === 'dark' ? '#0f172a' : '#ffffff';
+    const textColor = theme === 'dark' ? '#f1f5f9' : '#1e293b';
+
+    const overrides = `
+        <style id="sota-preview-overrides">
+            ${themeStyles}
+            ::-webkit-scrollbar { width: 8px; }
+            ::-webkit-scrollbar-track { background: transparent; }
+            ::-webkit-scrollbar-thumb { background: #cbd5e1; border-radius: 4px; }
+            .dark ::-webkit-scrollbar-thumb { background: #475569; }
+            
+            html, body { 
+                background-color: ${bgColor} !important; 
+                color: ${textColor};
+                min-height: 100vh;
+                margin: 0;
+                padding: 0;
+                transition: background-color 0.3s, color 0.3s;
+                font-family: ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+            }
+            body { box-sizing: border-box; }
+        </style>
+    `;
+
+    let finalHtml = '';
+    const hasDoctype = /<!DOCTYPE html>/i.test(raw);
+    const hasHead = /<head[^>]*>/i.test(raw);
+    const hasBody = /<body[^>]*>/i.test(raw);
+    
+    if (hasDoctype || hasHead || hasBody) {
+        finalHtml = raw;
+        if (theme === 'dark') {
+            if (/<html[^>]*class=["']/.test(finalHtml)) {
+                finalHtml = finalHtml.replace(/(<html[^>]*class=["'])/i, '$1dark ');
+            } else if (/<html/i.test(finalHtml)) {
+                finalHtml = finalHtml.replace(/<html/i, '<html class="dark"');
+            } else {
+                finalHtml = `<html class="dark">${finalHtml}</html>`;
+            }
+        }
+        if (/<\/head>/i.test(finalHtml)) {
+            finalHtml = finalHtml.replace(/<\/head>/i, `${overrides}</head>`);
+        } else if (/<body/i.test(finalHtml)) {
+            finalHtml = finalHtml.replace(/<body([^>]*)>/i, `<body$1>${overrides}`);
+        } else {
+            finalHtml = overrides + finalHtml;
+        }
+    } else {
+        finalHtml = `
+            <!DOCTYPE html>
+            <html class="${theme}">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                ${overrides}
+                <style>body { padding: 1.5rem; }</style>
+            </head>
+            <body>${raw}</body>
+            </html>
+        `;
+    }
+
+    return finalHtml;
+}
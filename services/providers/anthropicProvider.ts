@@ -0,0 +1,66 @@
+import { AiProvider } from '../../types';
+import { AiProviderAdapter } from './types';
+import { readSseJson } from './sse';
+import { toProviderHttpError } from './errors';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const MAX_TOKENS = 4096;
+
+const getHeaders = (apiKey: string): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01',
+});
+
+export const anthropicProvider: AiProviderAdapter = {
+    id: AiProvider.Anthropic,
+    name: 'Anthropic (Claude)',
+    defaultModel: 'claude-3-haiku-20240307',
+    suggestedModels: ['claude-3-haiku-20240307', 'claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest', 'claude-sonnet-4-0'],
+    // Tier 1 allows 50 requests per minute.
+    rateLimit: { requestsPerMinute: 50, maxConcurrent: 4 },
+
+    async validate({ apiKey, model, signal }) {
+        if (!apiKey) return false;
+        const body = JSON.stringify({ model, messages: [{ role: 'user', content: 'Hi' }], max_tokens: 1 });
+        const response = await fetch(API_URL, { method: 'POST', headers: getHeaders(apiKey), body, signal });
+        return response.ok;
+    },
+
+    async completeJson({ apiKey, model, prompt, signal, onUsage }) {
+        // The Messages API has no JSON mode; the prompt itself asks for JSON only.
+        const body = JSON.stringify({
+            model,
+            messages: [{ role: 'user', content: prompt }],
+            max_tokens: MAX_TOKENS,
+        });
+
+        const response = await fetch(API_URL, { method: 'POST', headers: getHeaders(apiKey), body, signal });
+        if (!response.ok) throw await toProviderHttpError(response);
+        const data = await response.json();
+        if (data.usage) onUsage?.({ inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 });
+        return data.content?.[0]?.text;
+    },
+
+    async *streamText({ apiKey, model, prompt, systemInstruction, signal, onUsage }) {
+        const body = JSON.stringify({
+            model,
+            system: systemInstruction,
+            messages: [{ role: 'user', content: prompt }],
+            stream: true,
+            max_tokens: MAX_TOKENS,
+        });
+
+        const response = await fetch(API_URL, { method: 'POST', headers: getHeaders(apiKey), body, signal });
+        if (!response.ok || !response.body) throw await toProviderHttpError(response, 'API Stream Error');
+
+        // Input tokens arrive in message_start, the cumulative output count in message_delta.
+        const usage = { inputTokens: 0, outputTokens: 0 };
+        for await (const event of readSseJson(response)) {
+            if (event.type === 'message_start') usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+            if (event.type === 'message_delta') usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+            if (event.type === 'content_block_delta' && event.delta?.text) yield event.delta.text;
+        }
+        onUsage?.(usage);
+    },
+};
@@ -0,0 +1,16 @@
+import { AiProvider } from '../../types';
+import { createOpenAiCompatibleAdapter } from './openAiCompatible';
+
+/**
+ * A self-hosted OpenAI-compatible server (Ollama, LM Studio, llama.cpp server, vLLM...).
+ * Drafts never leave the user's network when this points at a local machine.
+ */
+export const customProvider = createOpenAiCompatibleAdapter({
+    id: AiProvider.Custom,
+    name: 'Custom / Local',
+    defaultModel: 'llama3.1',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    apiKeyMode: 'optional',
+    // A local server usually runs one model on one GPU; extra parallel requests only queue up there.
+    rateLimit: { requestsPerMinute: 600, maxConcurrent: 2 },
+});
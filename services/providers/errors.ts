@@ -0,0 +1,61 @@
+/**
+ * A failed provider HTTP call. Carries the status and any server-requested delay so
+ * the retry logic can tell rate limits from permanent failures.
+ */
+export class ProviderHttpError extends Error {
+    status: number;
+    retryAfterMs?: number;
+
+    constructor(message: string, status: number, retryAfterMs?: number) {
+        super(message);
+        this.name = 'ProviderHttpError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Builds a ProviderHttpError from a non-OK response, reading `Retry-After` (seconds or HTTP date),
+ * OpenAI's `retry-after-ms`, and the provider's error message from the body.
+ */
+export async function toProviderHttpError(response: Response, label = 'API Error'): Promise<ProviderHttpError> {
+    let detail = '';
+    let bodyText = '';
+    try {
+        bodyText = await response.text();
+        const body = JSON.parse(bodyText);
+        detail = body?.error?.message ?? body?.message ?? '';
+    } catch {
+        detail = bodyText.substring(0, 200);
+    }
+
+    const retryAfterMs = parseRetryAfterHeaders(response.headers) ?? parseRetryDelay(bodyText);
+    return new ProviderHttpError(`${label}: ${response.status}${detail ? ` - ${detail}` : ''}`, response.status, retryAfterMs);
+}
+
+/**
+ * How long the provider asked us to wait before retrying, if it said.
+ * Falls back to the `retryDelay` Gemini embeds in 429 error messages.
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    return parseRetryDelay(String(error?.message ?? ''));
+}
+
+function parseRetryAfterHeaders(headers: Headers): number | undefined {
+    const retryAfterMs = Number(headers.get('retry-after-ms'));
+    if (retryAfterMs > 0) return retryAfterMs;
+
+    const retryAfter = headers.get('retry-after');
+    if (!retryAfter) return undefined;
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Matches Google's RetryInfo detail, e.g. "retryDelay": "23s" or "retryDelay":"1.5s".
+function parseRetryDelay(text: string): number | undefined {
+    const match = text.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+}
@@ -0,0 +1,73 @@
+import { GoogleGenAI, GenerateContentResponseUsageMetadata } from '@google/genai';
+import { AiProvider, TokenUsage } from '../../types';
+import { AiProviderAdapter } from './types';
+
+// Helper to initialize the Gemini client
+const getGeminiClient = (apiKey: string): GoogleGenAI => {
+    return new GoogleGenAI({ apiKey });
+};
+
+const reportUsage = (metadata: GenerateContentResponseUsageMetadata | undefined, onUsage?: (usage: TokenUsage) => void) => {
+    if (!metadata || !onUsage) return;
+    onUsage({
+        inputTokens: metadata.promptTokenCount ?? 0,
+        // Thinking tokens are billed as output.
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    });
+};
+
+export const geminiProvider: AiProviderAdapter = {
+    id: AiProvider.Gemini,
+    name: 'Google Gemini',
+    defaultModel: 'gemini-3-flash-preview',
+    // For complex coding tasks on Gemini, use the Pro model.
+    taskModels: { code: 'gemini-3-pro-preview' },
+    suggestedModels: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+    // The free tier allows roughly 10 requests per minute on Flash models.
+    rateLimit: { requestsPerMinute: 10, maxConcurrent: 3 },
+
+    async validate({ apiKey, model, signal }) {
+        if (!apiKey) return false;
+        const ai = getGeminiClient(apiKey);
+        await ai.models.generateContent({
+            model,
+            contents: 'h',
+            // Guideline: If maxOutputTokens is set, thinkingBudget must be set or used with 0 to disable thinking.
+            config: { maxOutputTokens: 1, thinkingConfig: { thinkingBudget: 0 }, abortSignal: signal }
+        });
+        return true;
+    },
+
+    async completeJson({ apiKey, model, prompt, responseSchema, signal, onUsage }) {
+        const ai = getGeminiClient(apiKey);
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema,
+                abortSignal: signal,
+            }
+        });
+        reportUsage(response.usageMetadata, onUsage);
+        return response.text ?? '';
+    },
+
+    async *streamText({ apiKey, model, prompt, systemInstruction, signal, onUsage }) {
+        const ai = getGeminiClient(apiKey);
+        const responseStream = await ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: { systemInstruction, abortSignal: signal }
+        });
+        let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+        for await (const chunk of responseStream) {
+            signal?.throwIfAborted();
+            // Each chunk carries the running totals, so the last one seen is the final count.
+            if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+            // SOTA Fix: Handle undefined chunk.text safely
+            if (chunk.text) yield chunk.text;
+        }
+        reportUsage(usageMetadata, onUsage);
+    },
+};
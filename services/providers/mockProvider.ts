@@ -0,0 +1,167 @@
+import { AiProvider, TokenUsage } from '../../types';
+import { PostDigest } from '../postDigestService';
+import { AiProviderAdapter } from './types';
+
+// Simulated latency, short enough for tests but long enough to show loading states.
+const COMPLETION_DELAY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 25;
+const STREAM_CHUNK_SIZE = 48;
+
+// Words that make a post a strong candidate for an interactive tool.
+const HIGH_INTENT_WORDS = ['how', 'calculator', 'calculate', 'cost', 'guide', 'best', 'compare', 'vs', 'planner', 'checklist'];
+
+const ICONS = ['calculator', 'chart', 'list', 'idea'];
+
+// FNV-1a: a small, stable string hash so output is reproducible across runs.
+const hash = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Waits for `ms`, rejecting with the signal's reason if it fires first.
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Roughly four characters per token, like most BPE tokenizers on English text.
+const estimateUsage = (input: string, output: string): TokenUsage => ({
+    inputTokens: Math.ceil(input.length / 4),
+    outputTokens: Math.ceil(output.length / 4),
+});
+
+const extractQuoted = (prompt: string, label: string): string | undefined =>
+    prompt.match(new RegExp(`${label}:\\s*"([^"]*)"`))?.[1];
+
+// Scoring prompts list one post digest per line.
+const parseDigests = (prompt: string): PostDigest[] =>
+    prompt.split('\n').filter(line => line.startsWith('{"id":')).map(line => JSON.parse(line));
+
+const mockScores = (prompt: string) => {
+    const posts = parseDigests(prompt).map(({ id, title, tables, formulas, figures }) => {
+        const lowerTitle = title.toLowerCase();
+        const intentHits = HIGH_INTENT_WORDS.filter(word => new RegExp(`\\b${word}\\b`).test(lowerTitle)).length;
+        const signals = [
+            ...(intentHits > 0 ? [`${intentHits} intent word${intentHits > 1 ? 's' : ''} in title`] : []),
+            ...tables.map(() => 'numeric table'),
+            ...formulas.map(() => 'formula'),
+            ...(figures >= 5 ? [`${figures} prices/percentages`] : []),
+        ].slice(0, 4);
+        const contentBoost = (tables.length + formulas.length) * 15 + (figures >= 5 ? 10 : 0);
+        const opportunityScore = Math.min(100, (hash(title) % 60) + intentHits * 20 + contentBoost);
+        return {
+            id,
+            opportunityScore,
+            opportunityRationale: signals.length > 0
+                ? `Mock: practical, high-intent content (${signals.length} signal${signals.length > 1 ? 's' : ''}).`
+                : 'Mock: informational topic with limited tool potential.',
+            opportunitySignals: signals,
+        };
+    });
+    return { posts };
+};
+
+const mockIdeas = (prompt: string) => {
+    const title = extractQuoted(prompt, 'Title') ?? 'Your Topic';
+    const offset = hash(title) % ICONS.length;
+    const ideas = [
+        { title: `${title} Calculator`, description: `Estimate the numbers behind "${title}" from a few inputs.` },
+        { title: `${title} Comparison Chart`, description: 'Compare the main options side by side with an interactive chart.' },
+        { title: `${title} Checklist`, description: 'A step-by-step checklist readers can tick off and save.' },
+    ].map((idea, index) => ({ ...idea, icon: ICONS[(offset + index) % ICONS.length] }));
+    return { ideas };
+};
+
+const mockToolHtml = (prompt: string): string => {
+    // New tools name their project; refreshes only carry the old code, so reuse its <title>.
+    const title = extractQuoted(prompt, 'Project') ?? prompt.match(/<title>([^<]*)<\/title>/i)?.[1] ?? 'Interactive Tool';
+    const rate = (hash(title) % 9) + 2;
+    // Refinements can't really be applied, so record the request where it is easy to spot.
+    const revision = extractQuoted(prompt, 'Latest request');
+    return `<!DOCTYPE html>${revision ? `\n<!-- Revised: ${revision} -->` : ''}
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${title}</title>
+<script type="application/ld+json">
+{ "@context": "https://schema.org", "@type": "SoftwareApplication", "name": "${title}", "applicationCategory": "UtilitiesApplication", "operatingSystem": "Any" }
+</script>
+<style>
+  .mock-tool { --primary: #2563eb; --hover: #1d4ed8; --bg-glass: rgba(255,255,255,0.7); font-family: system-ui, sans-serif; max-width: 480px; margin: 0 auto; padding: 1.5rem; border-radius: 1rem; background: var(--bg-glass); box-shadow: 0 8px 32px rgba(0,0,0,0.1); }
+  .mock-tool label { display: block; margin-bottom: 0.75rem; }
+  .mock-tool input { width: 100%; padding: 0.5rem; border: 1px solid #cbd5e1; border-radius: 0.5rem; }
+  .mock-tool button { background: var(--primary); color: #fff; border: 0; padding: 0.6rem 1rem; border-radius: 0.5rem; cursor: pointer; }
+  .mock-tool button:hover { background: var(--hover); }
+  @media (prefers-color-scheme: dark) { .mock-tool { --bg-glass: rgba(15,23,42,0.7); color: #f1f5f9; } }
+</style>
+</head>
+<body>
+<article class="mock-tool">
+  <section>
+    <h2>${title}</h2>
+    <label>Amount <input type="number" id="mock-amount" value="1000" min="0"></label>
+    <label>Years <input type="number" id="mock-years" value="5" min="1"></label>
+    <button type="button" id="mock-calculate">Calculate</button>
+    <p>Result: <output id="mock-result" for="mock-amount mock-years">-</output></p>
+  </section>
+</article>
+<script>
+  document.getElementById('mock-calculate').addEventListener('click', function () {
+    var amount = parseFloat(document.getElementById('mock-amount').value) || 0;
+    var years = parseFloat(document.getElementById('mock-years').value) || 0;
+    document.getElementById('mock-result').textContent = (amount * Math.pow(1 + ${rate} / 100, years)).toFixed(2);
+  });
+</script>
+</body>
+</html>`;
+};
+
+/**
+ * An offline provider for demos, development and end-to-end UI tests.
+ * Responses are canned but derived from the prompt (post IDs and titles), so the same
+ * posts always get the same scores, ideas and HTML. No network calls are made.
+ */
+export const mockProvider: AiProviderAdapter = {
+    id: AiProvider.Mock,
+    name: 'Mock (Offline)',
+    defaultModel: 'mock-1',
+    suggestedModels: ['mock-1'],
+    apiKeyMode: 'none',
+    rateLimit: { requestsPerMinute: 6000, maxConcurrent: 6 },
+
+    async validate({ signal }) {
+        await delay(COMPLETION_DELAY_MS, signal);
+        return true;
+    },
+
+    async completeJson({ prompt, responseSchema, signal, onUsage }) {
+        await delay(COMPLETION_DELAY_MS, signal);
+        // The schema tells us which flow is asking; anything else gets an empty object.
+        const properties = responseSchema?.properties ?? {};
+        const result = 'posts' in properties ? mockScores(prompt) : 'ideas' in properties ? mockIdeas(prompt) : {};
+        const text = JSON.stringify(result);
+        onUsage?.(estimateUsage(prompt, text));
+        return text;
+    },
+
+    async *streamText({ prompt, systemInstruction, signal, onUsage }) {
+        const html = mockToolHtml(prompt);
+        for (let i = 0; i < html.length; i += STREAM_CHUNK_SIZE) {
+            await delay(STREAM_CHUNK_DELAY_MS, signal);
+            yield html.slice(i, i + STREAM_CHUNK_SIZE);
+        }
+        onUsage?.(estimateUsage(systemInstruction + prompt, html));
+    },
+};
@@ -0,0 +1,95 @@
+import { AiProvider, TokenUsage } from '../../types';
+import { AiProviderAdapter, ApiKeyMode, ProviderCredentials, RateLimit } from './types';
+import { readSseJson } from './sse';
+import { toProviderHttpError } from './errors';
+
+interface OpenAiCompatibleOptions {
+    id: AiProvider;
+    name: string;
+    defaultModel: string;
+    // Fixed Chat Completions URL. When omitted, it is derived from the user's base URL.
+    url?: string;
+    defaultBaseUrl?: string;
+    suggestedModels?: string[];
+    apiKeyMode?: ApiKeyMode;
+    rateLimit?: RateLimit;
+    // Extra headers sent alongside the bearer token.
+    headers?: Record<string, string>;
+}
+
+const reportUsage = (usage: any, onUsage?: (usage: TokenUsage) => void) => {
+    if (!usage || !onUsage) return;
+    onUsage({ inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+};
+
+/**
+ * Builds an adapter for any backend that speaks the OpenAI Chat Completions protocol.
+ */
+export function createOpenAiCompatibleAdapter(options: OpenAiCompatibleOptions): AiProviderAdapter {
+    const apiKeyMode = options.apiKeyMode ?? 'required';
+
+    const getUrl = ({ baseUrl }: ProviderCredentials): string => {
+        if (options.url) return options.url;
+        const base = (baseUrl || options.defaultBaseUrl || '').trim().replace(/\/+$/, '');
+        if (!base) throw new Error(`${options.name} requires a base URL.`);
+        return `${base}/chat/completions`;
+    };
+
+    const getHeaders = ({ apiKey }: ProviderCredentials): Record<string, string> => ({
+        'Content-Type': 'application/json',
+        // Local servers usually run without auth, so only send a bearer token when one is set.
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        ...options.headers,
+    });
+
+    return {
+        id: options.id,
+        name: options.name,
+        defaultModel: options.defaultModel,
+        suggestedModels: options.suggestedModels,
+        requiresBaseUrl: !options.url,
+        defaultBaseUrl: options.defaultBaseUrl,
+        apiKeyMode,
+        rateLimit: options.rateLimit,
+
+        async validate(request) {
+            if (apiKeyMode === 'required' && !request.apiKey) return false;
+            const body = JSON.stringify({ model: request.model, messages: [{ role: 'user', content: 'Hi' }], max_tokens: 1 });
+            const response = await fetch(getUrl(request), { method: 'POST', headers: getHeaders(request), body, signal: request.signal });
+            return response.ok;
+        },
+
+        async completeJson(request) {
+            const body = JSON.stringify({
+                model: request.model,
+                messages: [{ role: 'user', content: request.prompt }],
+                response_format: { type: 'json_object' }
+            });
+
+            const response = await fetch(getUrl(request), { method: 'POST', headers: getHeaders(request), body, signal: request.signal });
+            if (!response.ok) throw await toProviderHttpError(response);
+            const data = await response.json();
+            reportUsage(data.usage, request.onUsage);
+            return data.choices?.[0]?.message?.content;
+        },
+
+        async *streamText(request) {
+            const body = JSON.stringify({
+                model: request.model,
+                messages: [{ role: 'system', content: request.systemInstruction }, { role: 'user', content: request.prompt }],
+                stream: true,
+                // Ask for a final chunk with token counts; servers that don't support it just omit it.
+                stream_options: { include_usage: true }
+            });
+
+            const response = await fetch(getUrl(request), { method: 'POST', headers: getHeaders(request), body, signal: request.signal });
+            if (!response.ok || !response.body) throw await toProviderHttpError(response, 'API Stream Error');
+
+            for await (const event of readSseJson(response)) {
+                if (event.usage) reportUsage(event.usage, request.onUsage);
+                const textChunk = event.choices?.[0]?.delta?.content;
+                if (textChunk) yield textChunk;
+            }
+        },
+    };
+}
@@ -0,0 +1,10 @@
+import { AiProvider } from '../../types';
+import { createOpenAiCompatibleAdapter } from './openAiCompatible';
+
+export const openAiProvider = createOpenAiCompatibleAdapter({
+    id: AiProvider.OpenAI,
+    name: 'OpenAI',
+    defaultModel: 'gpt-4o',
+    suggestedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    url: 'https://api.openai.com/v1/chat/completions',
+});
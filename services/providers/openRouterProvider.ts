@@ -0,0 +1,15 @@
+import { AiProvider } from '../../types';
+import { createOpenAiCompatibleAdapter } from './openAiCompatible';
+
+export const openRouterProvider = createOpenAiCompatibleAdapter({
+    id: AiProvider.OpenRouter,
+    name: 'OpenRouter',
+    defaultModel: 'mistralai/mistral-7b-instruct',
+    url: 'https://openrouter.ai/api/v1/chat/completions',
+    // Free models are limited to 20 requests per minute.
+    rateLimit: { requestsPerMinute: 20, maxConcurrent: 4 },
+    headers: {
+        'HTTP-Referer': 'https://html-snippet-ai.com',
+        'X-Title': 'HTML Snippet AI',
+    },
+});
@@ -0,0 +1,51 @@
+import { AiProvider } from '../../types';
+import { AiProviderAdapter } from './types';
+import { geminiProvider } from './geminiProvider';
+import { openAiProvider } from './openAiProvider';
+import { anthropicProvider } from './anthropicProvider';
+import { openRouterProvider } from './openRouterProvider';
+import { customProvider } from './customProvider';
+import { mockProvider } from './mockProvider';
+
+// Insertion order is the order providers appear in the UI.
+const adapters = new Map<AiProvider, AiProviderAdapter>();
+
+/**
+ * Adds a backend to the registry. Registering an ID twice replaces the earlier adapter.
+ */
+export function registerProvider(adapter: AiProviderAdapter): void {
+    adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Looks up the adapter for a provider.
+ * @throws An error if no adapter is registered for the provider.
+ */
+export function getProvider(id: AiProvider): AiProviderAdapter {
+    const adapter = adapters.get(id);
+    if (!adapter) {
+        throw new Error(`Unsupported provider: ${id}`);
+    }
+    return adapter;
+}
+
+/**
+ * Returns every registered adapter in registration order.
+ */
+export function getProviders(): AiProviderAdapter[] {
+    return Array.from(adapters.values());
+}
+
+/**
+ * Builds a per-provider record (keys, validation statuses, ...) from the registered adapters.
+ */
+export function mapProviders<T>(fn: (adapter: AiProviderAdapter) => T): Record<AiProvider, T> {
+    return Object.fromEntries(getProviders().map(adapter => [adapter.id, fn(adapter)])) as Record<AiProvider, T>;
+}
+
+registerProvider(geminiProvider);
+registerProvider(openAiProvider);
+registerProvider(anthropicProvider);
+registerProvider(openRouterProvider);
+registerProvider(customProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,29 @@
+/**
+ * Reads a Server-Sent Events response body and yields the parsed JSON of each `data:` line.
+ * Stops at the OpenAI-style `[DONE]` sentinel or when the body ends.
+ * Lines that are not valid JSON (keep-alives, comments) are skipped.
+ */
+export async function* readSseJson(response: Response): AsyncGenerator<any, void, unknown> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            if (!line.startsWith('data: ')) continue;
+            const data = line.substring(6);
+            if (data.trim() === '[DONE]') return;
+            try {
+                yield JSON.parse(data);
+            } catch (e) { }
+        }
+    }
+}
@@ -0,0 +1,72 @@
+import type { Schema } from '@google/genai';
+import { AiProvider, AiTask, TokenUsage } from '../../types';
+
+/**
+ * How a provider is reached. The key may be empty for local endpoints.
+ */
+export interface ProviderCredentials {
+    apiKey: string;
+    baseUrl?: string;
+}
+
+/**
+ * Credentials and model shared by every provider call.
+ */
+export interface ProviderRequest extends ProviderCredentials {
+    model: string;
+    // Cancels the in-flight request, including an open stream.
+    signal?: AbortSignal;
+    // Receives the token counts the provider reports for this call (once, when known).
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+// 'none' hides the key field entirely (the offline mock provider).
+export type ApiKeyMode = 'required' | 'optional' | 'none';
+
+/**
+ * Client-side throttle for a provider, enforced by the request scheduler.
+ */
+export interface RateLimit {
+    requestsPerMinute: number;
+    // Upper bound on requests in flight at once, including open streams.
+    maxConcurrent: number;
+}
+
+export interface JsonCompletionRequest extends ProviderRequest {
+    prompt: string;
+    // Providers with native structured output (Gemini) enforce this schema; others rely on the prompt.
+    responseSchema?: Schema;
+}
+
+export interface StreamTextRequest extends ProviderRequest {
+    prompt: string;
+    systemInstruction: string;
+}
+
+/**
+ * A self-contained backend. Each adapter owns its endpoint, auth headers and
+ * request/response format, so aiService never has to branch on the provider.
+ */
+export interface AiProviderAdapter {
+    id: AiProvider;
+    name: string;
+    defaultModel: string;
+    // Per-task defaults that differ from defaultModel (e.g. a stronger model for code).
+    taskModels?: Partial<Record<AiTask, string>>;
+    // Offered as suggestions in the model selectors; any other model ID may still be typed.
+    suggestedModels?: string[];
+    // How the API key is supplied. Defaults to 'required'.
+    apiKeyMode?: ApiKeyMode;
+    // Whether the user must supply the endpoint URL (self-hosted servers).
+    requiresBaseUrl?: boolean;
+    defaultBaseUrl?: string;
+    // Defaults to DEFAULT_RATE_LIMIT in requestScheduler.ts. Conservative values keep free-tier keys under quota.
+    rateLimit?: RateLimit;
+
+    /** Makes a minimal call to check the credentials. */
+    validate(request: ProviderRequest): Promise<boolean>;
+    /** Returns the raw text of a JSON completion; parsing is left to the caller. */
+    completeJson(request: JsonCompletionRequest): Promise<string>;
+    /** Streams raw text chunks as they arrive. */
+    streamText(request: StreamTextRequest): AsyncGenerator<string, void, unknown>;
+}
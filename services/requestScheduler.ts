@@ -0,0 +1,128 @@
+import { AiProvider } from '../types';
+import { getProvider } from './providers/registry';
+import { RateLimit } from './providers/types';
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { requestsPerMinute: 60, maxConcurrent: 6 };
+
+interface Waiter {
+    resolve: (release: () => void) => void;
+    reject: (reason: unknown) => void;
+    signal?: AbortSignal;
+    onAbort: () => void;
+}
+
+// Token-bucket state per provider. The bucket holds up to `maxConcurrent` tokens so a burst
+// never exceeds what may run at once, and refills at `requestsPerMinute`.
+interface ProviderQueue {
+    limit: RateLimit;
+    tokens: number;
+    lastRefill: number;
+    active: number;
+    pausedUntil: number;
+    waiters: Waiter[];
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+const queues = new Map<AiProvider, ProviderQueue>();
+
+function getQueue(provider: AiProvider): ProviderQueue {
+    let queue = queues.get(provider);
+    if (!queue) {
+        const limit = getProvider(provider).rateLimit ?? DEFAULT_RATE_LIMIT;
+        queue = { limit, tokens: limit.maxConcurrent, lastRefill: Date.now(), active: 0, pausedUntil: 0, waiters: [], timer: null };
+        queues.set(provider, queue);
+    }
+    return queue;
+}
+
+function refill(queue: ProviderQueue, now: number) {
+    if (now <= queue.lastRefill) return;
+    const perMs = queue.limit.requestsPerMinute / 60_000;
+    queue.tokens = Math.min(queue.limit.maxConcurrent, queue.tokens + (now - queue.lastRefill) * perMs);
+    queue.lastRefill = now;
+}
+
+// Starts every waiter that may run now, then arms a timer for the next one held back by the bucket or a pause.
+function pump(queue: ProviderQueue) {
+    const now = Date.now();
+    refill(queue, now);
+
+    while (queue.waiters.length > 0 && now >= queue.pausedUntil && queue.active < queue.limit.maxConcurrent && queue.tokens >= 1) {
+        const waiter = queue.waiters.shift()!;
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+        queue.tokens -= 1;
+        queue.active += 1;
+        let released = false;
+        waiter.resolve(() => {
+            if (released) return;
+            released = true;
+            queue.active -= 1;
+            pump(queue);
+        });
+    }
+
+    // Waiters blocked only by concurrency are started by the next release.
+    if (queue.waiters.length === 0 || queue.timer || queue.active >= queue.limit.maxConcurrent) return;
+    const tokenWait = queue.tokens >= 1 ? 0 : (1 - queue.tokens) / (queue.limit.requestsPerMinute / 60_000);
+    const delay = Math.max(queue.pausedUntil - now, tokenWait, 0);
+    queue.timer = setTimeout(() => {
+        queue.timer = null;
+        pump(queue);
+    }, Math.ceil(delay));
+}
+
+/**
+ * Waits for a request slot under the provider's rate limit.
+ * Every successful acquire must be paired with a call to the returned release function.
+ * @throws The signal's abort reason if it fires while waiting.
+ */
+export function acquireSlot(provider: AiProvider, signal?: AbortSignal): Promise<() => void> {
+    const queue = getQueue(provider);
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const waiter: Waiter = {
+            resolve,
+            reject,
+            signal,
+            onAbort: () => {
+                queue.waiters = queue.waiters.filter(w => w !== waiter);
+                reject(signal!.reason);
+            },
+        };
+        signal?.addEventListener('abort', waiter.onAbort, { once: true });
+        queue.waiters.push(waiter);
+        pump(queue);
+    });
+}
+
+/**
+ * Runs `fn` once a slot is free, releasing the slot when it settles.
+ */
+export async function schedule<T>(provider: AiProvider, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await acquireSlot(provider, signal);
+    try {
+        return await fn();
+    } finally {
+        release();
+    }
+}
+
+/**
+ * Holds back every queued request for a provider, e.g. after a 429 with `Retry-After`.
+ * Requests already in flight are unaffected.
+ */
+export function pauseProvider(provider: AiProvider, ms: number): void {
+    const queue = getQueue(provider);
+    queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + ms);
+    // The server-side quota is evidently spent too, so resume with a single request instead of a burst.
+    queue.tokens = Math.min(queue.tokens, 1);
+    queue.lastRefill = queue.pausedUntil;
+    if (queue.timer) {
+        clearTimeout(queue.timer);
+        queue.timer = null;
+    }
+    pump(queue);
+}
@@ -0,0 +1,67 @@
+import { Type, Schema } from '@google/genai';
+
+/**
+ * Validates a parsed JSON value against the same `Schema` objects sent to Gemini as `responseSchema`,
+ * so one definition drives both native structured output and runtime checks for every provider.
+ * Supports the subset we use: type, properties, required, items, enum, minimum, maximum, minItems.
+ * @param value The parsed JSON value.
+ * @param schema The schema to check against.
+ * @param path The JSON path of `value`, used to prefix error messages.
+ * @returns A list of human-readable errors; empty when the value is valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: Schema, path = '$'): string[] {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${path}: is missing`];
+    }
+
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected an object, got ${describe(value)}`];
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined || record[key] === null) errors.push(`${path}.${key}: is required`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] === undefined || record[key] === null) continue;
+                errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+            }
+            return errors;
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) return [`${path}: expected an array, got ${describe(value)}`];
+            const errors: string[] = [];
+            if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+                errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+            }
+            if (schema.items) {
+                value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+            }
+            return errors;
+        }
+        case Type.INTEGER:
+        case Type.NUMBER: {
+            if (typeof value !== 'number' || Number.isNaN(value)) return [`${path}: expected a number, got ${describe(value)}`];
+            if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [`${path}: expected an integer, got ${value}`];
+            if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: ${value} is below the minimum of ${schema.minimum}`];
+            if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: ${value} is above the maximum of ${schema.maximum}`];
+            return [];
+        }
+        case Type.STRING: {
+            if (typeof value !== 'string') return [`${path}: expected a string, got ${describe(value)}`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`];
+            if (schema.minLength !== undefined && value.trim().length < Number(schema.minLength)) return [`${path}: must not be empty`];
+            return [];
+        }
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path}: expected a boolean, got ${describe(value)}`];
+        default:
+            return [];
+    }
+}
+
+function describe(value: unknown): string {
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return `string "${value.substring(0, 40)}"`;
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+}
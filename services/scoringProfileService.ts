@@ -0,0 +1,70 @@
+import { ScoringProfile, SiteScoringProfiles } from '../types';
+import { DEFAULT_SCORING_PROFILES } from '../constants';
+
+const STORAGE_KEY = 'scoringProfiles';
+
+type StoredProfiles = Record<string, SiteScoringProfiles>; // Keyed by site URL
+
+const readAll = (): StoredProfiles => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to read scoring profiles:", error);
+    return {};
+  }
+};
+
+/**
+ * Returns the site's scoring profiles, or the presets if it has none saved yet.
+ */
+export function loadScoringProfiles(siteUrl: string): SiteScoringProfiles {
+  const saved = readAll()[siteUrl];
+  return saved && saved.profiles.length > 0 ? saved : DEFAULT_SCORING_PROFILES;
+}
+
+export function saveScoringProfiles(siteUrl: string, settings: SiteScoringProfiles): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [siteUrl]: settings }));
+  } catch (error) {
+    console.error("Failed to save scoring profiles:", error);
+  }
+}
+
+export const getActiveProfile = (settings: SiteScoringProfiles): ScoringProfile =>
+  settings.profiles.find(p => p.id === settings.activeProfileId) ?? settings.profiles[0] ?? DEFAULT_SCORING_PROFILES.profiles[0];
+
+/**
+ * A short fingerprint of everything in a profile that affects scores (not its name).
+ * Cached scores carry it, so editing or switching the profile makes them stale.
+ */
+export function getProfileKey(profile: ScoringProfile): string {
+  const { criteria, examples, targetToolTypes } = profile;
+  const text = JSON.stringify({ criteria, examples, targetToolTypes });
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+/**
+ * Renders a profile as the criteria section of the scoring prompt, with weights stated as shares of 100.
+ */
+export function buildRubricPrompt(profile: ScoringProfile): string {
+  const totalWeight = profile.criteria.reduce((sum, c) => sum + Math.max(0, c.weight), 0) || 1;
+  const lines = [`Scoring profile: ${profile.name}`, 'Criteria (weight out of 100):'];
+  profile.criteria.forEach(c => {
+    lines.push(`- ${c.name} (${Math.round((Math.max(0, c.weight) / totalWeight) * 100)}): ${c.description}`);
+  });
+  if (profile.targetToolTypes.length > 0) {
+    lines.push(`Favor posts that could host one of these tools: ${profile.targetToolTypes.join(', ')}.`);
+  }
+  if (profile.examples.length > 0) {
+    lines.push('Reference scores:');
+    profile.examples.forEach(e => lines.push(`- "${e.title}": ${e.score}`));
+  }
+  return lines.join('\n');
+}
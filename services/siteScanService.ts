@@ -0,0 +1,83 @@
+import { SiteScanCheckpoint, SiteScanState } from '../types';
+
+const CHECKPOINT_KEY = 'siteScanCheckpoints';
+
+type StoredCheckpoints = Record<string, SiteScanCheckpoint>; // Keyed by site URL
+
+// Pages fetched (and scored) at the same time. AI calls are further limited by the request scheduler.
+export const SCAN_PAGE_CONCURRENCY = 3;
+
+const readAll = (): StoredCheckpoints => {
+  try {
+    const stored = localStorage.getItem(CHECKPOINT_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to read the site scan checkpoints:", error);
+    localStorage.removeItem(CHECKPOINT_KEY);
+    return {};
+  }
+};
+
+const writeAll = (checkpoints: StoredCheckpoints): void => {
+  try {
+    localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoints));
+  } catch (error) {
+    console.error("Failed to save the site scan checkpoints:", error);
+  }
+};
+
+/**
+ * Returns the saved scan for this site, or null if there is none.
+ */
+export function loadCheckpoint(siteUrl: string): SiteScanCheckpoint | null {
+  return readAll()[siteUrl] ?? null;
+}
+
+/**
+ * Saves the scan's progress under its site. Only the checkpoint fields are stored, never the run state
+ * (isRunning and the timing fields) of a `SiteScanState`.
+ */
+export function saveCheckpoint(checkpoint: SiteScanCheckpoint): void {
+  const { siteUrl, query, totalPages, totalPosts, completedPages } = checkpoint;
+  writeAll({ ...readAll(), [siteUrl]: { siteUrl, query, totalPages, totalPosts, completedPages } });
+}
+
+export function clearCheckpoint(siteUrl: string): void {
+  const checkpoints = readAll();
+  delete checkpoints[siteUrl];
+  writeAll(checkpoints);
+}
+
+/**
+ * The pages a scan still has to fetch. Until the page count is known, that's just page 1.
+ */
+export function getPendingPages(checkpoint: SiteScanCheckpoint): number[] {
+  if (checkpoint.totalPages === 0) return [1];
+  const done = new Set(checkpoint.completedPages);
+  return Array.from({ length: checkpoint.totalPages }, (_, i) => i + 1).filter(page => !done.has(page));
+}
+
+/**
+ * Estimates the time left from the pace of the current run.
+ * @returns Milliseconds remaining, or null until the current run has finished a page.
+ */
+export function estimateRemainingMs(scan: SiteScanState, now: number): number | null {
+  const pagesThisRun = scan.completedPages.length - scan.pagesAtRunStart;
+  if (!scan.runStartedAt || pagesThisRun <= 0) return null;
+  const msPerPage = (now - scan.runStartedAt) / pagesThisRun;
+  return Math.max(0, scan.totalPages - scan.completedPages.length) * msPerPage;
+}
+
+/**
+ * Runs `worker` over every item with at most `limit` in flight. Stops picking up items once `signal` aborts.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> {
+  const queue = [...items];
+  const runNext = async (): Promise<void> => {
+    while (queue.length > 0) {
+      signal?.throwIfAborted();
+      await worker(queue.shift() as T);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, queue.length) }, runNext));
+}
@@ -0,0 +1,188 @@
+import { SmokeTestReport } from '../types';
+import { buildPreviewDocument } from './previewService';
+import { checkSnippet, describeIssue } from './snippetQualityService';
+import { normalizeSnippet } from './embedService';
+
+const MESSAGE_SOURCE = 'contentforge-smoke-test';
+// How long the tool gets to react to the sample input before its outputs are read.
+const SETTLE_MS = 600;
+const TIMEOUT_MS = 8000;
+
+type HarnessResult = Pick<SmokeTestReport, 'errors' | 'inputsFilled' | 'eventsFired' | 'outputs'>;
+
+/**
+ * Runs inside the test page, so it must not reference anything outside itself: it is injected as source text.
+ * Records errors from the start, then after load fills every control, fires input, change and submit
+ * events, clicks the action buttons and reports what the <output> elements show.
+ */
+function smokeTestHarness(runId: string, source: string, settleMs: number) {
+  const errors: string[] = [];
+  const originalConsoleError = console.error;
+  console.error = (...args: unknown[]) => {
+    errors.push(`console.error: ${args.map(String).join(' ')}`);
+    originalConsoleError.apply(console, args);
+  };
+  window.addEventListener('error', (e) => errors.push(`Uncaught ${e.message || 'error'}${e.lineno ? ` (line ${e.lineno})` : ''}`));
+  window.addEventListener('unhandledrejection', (e) => errors.push(`Unhandled promise rejection: ${(e.reason && e.reason.message) || e.reason}`));
+
+  const sampleValue = (input: HTMLInputElement): string => {
+    switch (input.type) {
+      case 'number':
+      case 'range': {
+        const min = input.min !== '' ? Number(input.min) : NaN;
+        const max = input.max !== '' ? Number(input.max) : NaN;
+        if (!isNaN(min) && !isNaN(max)) return String(Math.round((min + max) / 2));
+        if (!isNaN(min)) return String(Math.max(min, min > 0 ? min * 2 : 10));
+        if (!isNaN(max)) return String(Math.min(max, 10));
+        return '10';
+      }
+      case 'email': return 'test@example.com';
+      case 'url': return 'https://example.com';
+      case 'tel': return '5551234567';
+      case 'date': return '2024-06-15';
+      case 'month': return '2024-06';
+      case 'week': return '2024-W24';
+      case 'time': return '12:30';
+      case 'datetime-local': return '2024-06-15T12:30';
+      case 'color': return '#3366ff';
+      default: return input.placeholder && !/[^\d.,\s]/.test(input.placeholder) ? input.placeholder : 'Sample';
+    }
+  };
+
+  const fire = (target: EventTarget, type: string) => {
+    target.dispatchEvent(new Event(type, { bubbles: true, cancelable: true }));
+    return 1;
+  };
+
+  const run = () => {
+    let inputsFilled = 0;
+    let eventsFired = 0;
+    document.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>('input, select, textarea').forEach(el => {
+      if (el.disabled || ('readOnly' in el && el.readOnly)) return;
+      if (el instanceof HTMLInputElement) {
+        if (['hidden', 'submit', 'button', 'reset', 'file', 'image'].includes(el.type)) return;
+        if (el.type === 'checkbox') el.checked = !el.checked;
+        else if (el.type === 'radio') el.checked = true;
+        else el.value = sampleValue(el);
+      } else if (el instanceof HTMLSelectElement) {
+        if (el.options.length === 0) return;
+        el.selectedIndex = Math.min(1, el.options.length - 1);
+      } else {
+        el.value = 'Sample text';
+      }
+      inputsFilled++;
+      eventsFired += fire(el, 'input') + fire(el, 'change');
+    });
+    document.querySelectorAll('form').forEach(form => { eventsFired += fire(form, 'submit'); });
+    // Many tools calculate on a button click rather than a form submit.
+    document.querySelectorAll<HTMLElement>('button:not([type="submit"]):not([type="reset"]), input[type="button"]').forEach(button => {
+      if (/reset|clear|copy|print|share|download/i.test(button.textContent || (button as HTMLInputElement).value || '')) return;
+      button.click();
+      eventsFired++;
+    });
+
+    setTimeout(() => {
+      const outputs = Array.from(document.querySelectorAll('output')).map((output, index) => {
+        const value = (output.textContent || '').trim();
+        return {
+          label: output.id || output.getAttribute('name') || `output ${index + 1}`,
+          value: value.slice(0, 80),
+          ok: value !== '' && !/\b(NaN|undefined|null|Infinity)\b|\[object /.test(value),
+        };
+      });
+      parent.postMessage({ source, runId, result: { errors, inputsFilled, eventsFired, outputs } }, '*');
+    }, settleMs);
+  };
+
+  window.addEventListener('load', () => setTimeout(run, 50));
+}
+
+// Puts the harness first in <head> so it sees errors thrown by the tool's own scripts.
+function buildSmokeTestDocument(snippet: string, runId: string): string {
+  const doc = buildPreviewDocument(snippet, 'light');
+  const harness = `<script>(${smokeTestHarness.toString()})(${JSON.stringify(runId)}, ${JSON.stringify(MESSAGE_SOURCE)}, ${SETTLE_MS});</script>`;
+  if (/<head[^>]*>/i.test(doc)) return doc.replace(/<head[^>]*>/i, match => `${match}${harness}`);
+  if (/<html[^>]*>/i.test(doc)) return doc.replace(/<html[^>]*>/i, match => `${match}${harness}`);
+  return harness + doc;
+}
+
+const summarize = (result: HarnessResult, durationMs: number): SmokeTestReport => {
+  const outputsOk = result.outputs.length > 0 && result.outputs.every(output => output.ok);
+  return { ...result, passed: result.errors.length === 0 && outputsOk, durationMs };
+};
+
+/**
+ * Why a report did not pass, one line per problem, e.g. to send back to the model.
+ */
+export function describeSmokeTestFailures(report: SmokeTestReport): string[] {
+  const failures = report.errors.map(error => `Runtime error: ${error}`);
+  if (report.outputs.length === 0) {
+    failures.push('No <output> elements were found, so no results could be checked.');
+  }
+  for (const output of report.outputs.filter(o => !o.ok)) {
+    failures.push(`Output "${output.label}" showed ${output.value ? `"${output.value}"` : 'nothing'} after filling in the inputs with sample values.`);
+  }
+  return failures;
+}
+
+/**
+ * Loads the snippet in a hidden sandboxed iframe, exercises its inputs and reports errors and output values.
+ * The iframe has no same-origin access, so the tool can't reach the app or the user's session.
+ */
+export function runSmokeTest(snippet: string, signal?: AbortSignal): Promise<SmokeTestReport> {
+  return new Promise((resolve, reject) => {
+    const runId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    const startedAt = Date.now();
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', 'allow-scripts');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.cssText = 'position:fixed;width:800px;height:600px;left:-10000px;top:0;visibility:hidden;';
+
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      iframe.remove();
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow || event.data?.source !== MESSAGE_SOURCE || event.data.runId !== runId) return;
+      cleanup();
+      resolve(summarize(event.data.result, Date.now() - startedAt));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('The smoke test was cancelled.', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      resolve({
+        passed: false,
+        errors: [`The tool did not finish loading within ${TIMEOUT_MS / 1000}s. It may be stuck in a loop or waiting on a network request.`],
+        inputsFilled: 0,
+        eventsFired: 0,
+        outputs: [],
+        durationMs: Date.now() - startedAt,
+      });
+    }, TIMEOUT_MS);
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort);
+    window.addEventListener('message', onMessage);
+    iframe.srcdoc = buildSmokeTestDocument(snippet, runId);
+    document.body.appendChild(iframe);
+  });
+}
+
+/**
+ * The auto-fix check: analyzer errors plus smoke test failures, worded for the model.
+ * The smoke test and code checks run on the normalized snippet, as it will be saved.
+ * An empty list means the snippet passed.
+ */
+export async function findSnippetProblems(snippet: string, signal?: AbortSignal): Promise<string[]> {
+  const code = snippet.replace(/```html/gi, '').replace(/```/g, '');
+  const normalized = normalizeSnippet(code);
+  // Line numbers are left out because some refer to the normalized code, not the version the model wrote.
+  const errors = checkSnippet(code, normalized).filter(issue => issue.severity === 'error').map(issue => describeIssue({ ...issue, line: undefined }));
+  const report = await runSmokeTest(normalized, signal);
+  return [...errors, ...(report.passed ? [] : describeSmokeTestFailures(report))];
+}
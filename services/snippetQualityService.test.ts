@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { checkSnippet, hasBlockingIssues } from './snippetQualityService';
+
+const rules = (issues: { rule: string }[]) => issues.map(issue => issue.rule);
+
+// A document cut off by the model's output limit, and the repaired fragment normalizing turns it into.
+const truncatedDocument = `<!DOCTYPE html>
+<html>
+<head><style>body { font-family: sans-serif; }</style></head>
+<body>
+  <label>Amount <input type="number" id="amount"></label>
+  <output id="result"></output>
+  <script>document.getElementById('amount').addEventListener('input', e => {
+    document.getElementById('result').textContent = e.target.value * 2;
+  });</script>
+  <div class="card">`;
+
+const normalizedFragment = `<div class="cf-tool-a1b2c3">
+<style>.cf-tool-a1b2c3 { font-family: sans-serif; }</style>
+<label>Amount <input type="number" id="amount"></label>
+<output id="result"></output>
+<div class="card"></div>
+<script>(function () { document.getElementById('amount').addEventListener('input', e => {
+  document.getElementById('result').textContent = e.target.value * 2;
+}); })();</script>
+</div>`;
+
+describe('checkSnippet', () => {
+  it('reports a truncated document', () => {
+    const issues = checkSnippet(truncatedDocument);
+    expect(rules(issues)).toContain('html/truncated');
+    expect(hasBlockingIssues(issues)).toBe(true);
+  });
+
+  it('still reports a truncated document when the normalized version is complete', () => {
+    expect(rules(checkSnippet(normalizedFragment))).not.toContain('html/truncated');
+
+    const issues = checkSnippet(truncatedDocument, normalizedFragment);
+    expect(rules(issues)).toContain('html/truncated');
+    expect(rules(issues)).toContain('html/unclosed-tag');
+    expect(hasBlockingIssues(issues)).toBe(true);
+  });
+
+  it('runs the code checks on the normalized version', () => {
+    const withExternalScript = normalizedFragment.replace('<output', '<script src="https://cdn.example.com/lib.js"></script>\n<output');
+    const complete = `${truncatedDocument}</div>\n</body>\n</html>`;
+
+    expect(rules(checkSnippet(complete, withExternalScript))).toContain('resource/external-script');
+    expect(rules(checkSnippet(complete, normalizedFragment))).not.toContain('resource/external-script');
+  });
+});
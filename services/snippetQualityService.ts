@@ -0,0 +1,257 @@
+import { SnippetIssue } from '../types';
+
+// Elements that never have a closing tag.
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Elements whose closing tag HTML lets you leave out.
+const OPTIONAL_END_ELEMENTS = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'option', 'optgroup', 'colgroup', 'caption', 'rp', 'rt']);
+// Elements whose content is text up to the matching closing tag, not markup.
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+const OPEN_TAG_REGEX = /^<([a-zA-Z][\w-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+const CLOSE_TAG_REGEX = /^<\/([a-zA-Z][\w-]*)\s*>/;
+const ATTRIBUTE_REGEX = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const EXTERNAL_URL_REGEX = /^\s*(https?:)?\/\//i;
+
+interface ParsedTag {
+  name: string;
+  attrs: Record<string, string>;
+  line: number;
+  content: string; // Text of raw-text elements such as <script>; '' otherwise
+}
+
+interface ParsedSnippet {
+  tags: ParsedTag[]; // Opening tags in document order
+  issues: SnippetIssue[]; // Markup errors found while parsing
+}
+
+// Scripts the analyzer treats as code (JSON-LD is data and is checked separately).
+const isExecutableScript = (tag: ParsedTag) =>
+  tag.name === 'script' && !tag.attrs.src && !/json/i.test(tag.attrs.type ?? '');
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  for (const [, name, double, single, bare] of source.matchAll(ATTRIBUTE_REGEX)) {
+    attrs[name.toLowerCase()] = double ?? single ?? bare ?? '';
+  }
+  return attrs;
+};
+
+/**
+ * Tokenizes the snippet and checks that every element is closed, and closed in order.
+ */
+function parseSnippet(html: string): ParsedSnippet {
+  const tags: ParsedTag[] = [];
+  const issues: SnippetIssue[] = [];
+  const open: ParsedTag[] = [];
+  const lineAt = (offset: number) => html.slice(0, offset).split('\n').length;
+  const error = (rule: string, message: string, line: number) => issues.push({ severity: 'error', rule, message, line });
+
+  let i = 0;
+  while ((i = html.indexOf('<', i)) !== -1) {
+    const rest = html.slice(i);
+    if (rest.startsWith('<!--')) {
+      const end = html.indexOf('-->', i + 4);
+      if (end === -1) {
+        error('html/unclosed-comment', 'A comment is never closed, so everything after it is hidden.', lineAt(i));
+        break;
+      }
+      i = end + 3;
+      continue;
+    }
+    if (rest.startsWith('<!') || rest.startsWith('<?')) {
+      i = html.indexOf('>', i) === -1 ? html.length : html.indexOf('>', i) + 1;
+      continue;
+    }
+
+    const closeMatch = rest.match(CLOSE_TAG_REGEX);
+    if (closeMatch) {
+      const name = closeMatch[1].toLowerCase();
+      const index = open.map(t => t.name).lastIndexOf(name);
+      if (index === -1) {
+        if (!VOID_ELEMENTS.has(name)) error('html/stray-closing-tag', `</${name}> has no matching opening tag.`, lineAt(i));
+      } else {
+        for (const unclosed of open.splice(index).slice(1)) {
+          if (!OPTIONAL_END_ELEMENTS.has(unclosed.name)) {
+            error('html/unclosed-tag', `<${unclosed.name}> from line ${unclosed.line} is not closed before </${name}>.`, unclosed.line);
+          }
+        }
+      }
+      i += closeMatch[0].length;
+      continue;
+    }
+
+    const openMatch = rest.match(OPEN_TAG_REGEX);
+    if (!openMatch) {
+      // A lone '<' followed by a letter is a tag the model failed to finish; anything else is text.
+      if (/^<[a-zA-Z]/.test(rest)) error('html/malformed-tag', `A tag starting with "${rest.slice(0, 20).split('\n')[0]}" is malformed.`, lineAt(i));
+      i += 1;
+      continue;
+    }
+
+    const [whole, rawName, attrSource, selfClosing] = openMatch;
+    const tag: ParsedTag = { name: rawName.toLowerCase(), attrs: parseAttributes(attrSource), line: lineAt(i), content: '' };
+    tags.push(tag);
+    i += whole.length;
+
+    if (RAW_TEXT_ELEMENTS.has(tag.name)) {
+      const end = html.toLowerCase().indexOf(`</${tag.name}`, i);
+      if (end === -1) {
+        error('html/unclosed-tag', `<${tag.name}> from line ${tag.line} is never closed.`, tag.line);
+        break;
+      }
+      tag.content = html.slice(i, end);
+      i = html.indexOf('>', end) + 1 || html.length;
+      continue;
+    }
+    if (VOID_ELEMENTS.has(tag.name) || selfClosing) continue;
+    // A new <li>, <p>, <tr>... implicitly closes an open sibling of the same kind.
+    if (OPTIONAL_END_ELEMENTS.has(tag.name) && open[open.length - 1]?.name === tag.name) open.pop();
+    open.push(tag);
+  }
+
+  for (const unclosed of open) {
+    if (!OPTIONAL_END_ELEMENTS.has(unclosed.name)) {
+      error('html/unclosed-tag', `<${unclosed.name}> from line ${unclosed.line} is never closed.`, unclosed.line);
+    }
+  }
+  return { tags, issues };
+}
+
+// Drops comments so commented-out code isn't reported. '//' after ':' is kept, since it is part of a URL.
+const stripComments = (code: string) => code.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:\\])\/\/.*$/gm, '$1');
+
+const BANNED_APIS: { pattern: RegExp; rule: string; message: string }[] = [
+  { pattern: /\beval\s*\(/, rule: 'js/eval', message: 'eval() runs arbitrary code.' },
+  { pattern: /\bnew\s+Function\s*\(/, rule: 'js/new-function', message: 'new Function() runs arbitrary code.' },
+  { pattern: /\bset(?:Timeout|Interval)\s*\(\s*['"`]/, rule: 'js/string-timer', message: 'A string passed to setTimeout or setInterval is run like eval().' },
+  { pattern: /\bdocument\.write(?:ln)?\s*\(/, rule: 'js/document-write', message: 'document.write() can wipe the whole post once the page has loaded.' },
+  { pattern: /\bdocument\.cookie\b/, rule: 'js/cookie', message: 'The tool reads or writes the site\'s cookies.' },
+  { pattern: /\bimport\s*\(/, rule: 'js/dynamic-import', message: 'import() loads code from elsewhere.' },
+  { pattern: /\b(?:XMLHttpRequest|WebSocket|EventSource)\b|\bnavigator\.sendBeacon\b/, rule: 'js/network', message: 'The tool opens network connections.' },
+];
+
+function checkScript(code: string, line: number): SnippetIssue[] {
+  const issues: SnippetIssue[] = [];
+  const source = stripComments(code);
+
+  for (const { pattern, rule, message } of BANNED_APIS) {
+    if (pattern.test(source)) issues.push({ severity: 'error', rule, message, line });
+  }
+  for (const [, url] of source.matchAll(/\bfetch\s*\(\s*(['"`][^'"`]*['"`]|[^,)]*)/g)) {
+    const literal = url.match(/^['"`](.*)['"`]$/);
+    if (literal && EXTERNAL_URL_REGEX.test(literal[1])) {
+      const host = literal[1].replace(EXTERNAL_URL_REGEX, '').split(/[/?#]/)[0];
+      issues.push({ severity: 'error', rule: 'js/third-party-fetch', message: `fetch() calls the third-party host ${host}.`, line });
+    } else if (!literal) {
+      issues.push({ severity: 'warning', rule: 'js/dynamic-fetch', message: 'fetch() is called with a computed URL that could point anywhere.', line });
+    }
+  }
+  return issues;
+}
+
+function checkExternalResources(tags: ParsedTag[], styles: string): SnippetIssue[] {
+  const issues: SnippetIssue[] = [];
+  for (const tag of tags) {
+    const { src, href, rel } = tag.attrs;
+    if (tag.name === 'script' && src !== undefined) {
+      issues.push({ severity: 'error', rule: 'resource/external-script', message: `<script src="${src}"> loads code from outside the tool.`, line: tag.line });
+    } else if (tag.name === 'link' && href && EXTERNAL_URL_REGEX.test(href) && /stylesheet|preload|modulepreload/i.test(rel ?? '')) {
+      issues.push({ severity: 'warning', rule: 'resource/external-stylesheet', message: `Loads an external stylesheet from ${href}.`, line: tag.line });
+    } else if (['img', 'iframe', 'video', 'audio', 'source', 'embed', 'object'].includes(tag.name) && src && EXTERNAL_URL_REGEX.test(src)) {
+      issues.push({ severity: 'warning', rule: 'resource/external-media', message: `<${tag.name}> loads ${src} from another site.`, line: tag.line });
+    }
+    if (/^\s*javascript:/i.test(href ?? '')) {
+      issues.push({ severity: 'error', rule: 'js/javascript-url', message: 'A javascript: link runs code when clicked.', line: tag.line });
+    }
+  }
+  if (/@import\b|url\(\s*['"]?(https?:)?\/\//i.test(styles)) {
+    issues.push({ severity: 'warning', rule: 'resource/external-css', message: 'The CSS imports fonts, images or styles from another site.' });
+  }
+  return issues;
+}
+
+const hasType = (node: any, type: string): boolean =>
+  !!node && (node['@type'] === type || (Array.isArray(node['@type']) && node['@type'].includes(type)));
+
+// The prompt asks for a SoftwareApplication JSON-LD block describing the tool.
+function checkJsonLd(tags: ParsedTag[]): SnippetIssue[] {
+  const blocks = tags.filter(tag => tag.name === 'script' && /application\/ld\+json/i.test(tag.attrs.type ?? ''));
+  if (blocks.length === 0) {
+    return [{ severity: 'warning', rule: 'jsonld/missing', message: 'No JSON-LD structured data (<script type="application/ld+json">).' }];
+  }
+
+  const issues: SnippetIssue[] = [];
+  let hasApplication = false;
+  for (const block of blocks) {
+    let data: any;
+    try {
+      data = JSON.parse(block.content);
+    } catch (e: any) {
+      issues.push({ severity: 'error', rule: 'jsonld/invalid-json', message: `The JSON-LD is not valid JSON: ${e.message}`, line: block.line });
+      continue;
+    }
+    const nodes: any[] = [data, ...(Array.isArray(data?.['@graph']) ? data['@graph'] : [])].flat();
+    if (!nodes.some(node => /schema\.org/i.test(String(node?.['@context'] ?? '')))) {
+      issues.push({ severity: 'warning', rule: 'jsonld/context', message: 'The JSON-LD has no schema.org @context.', line: block.line });
+    }
+    const application = nodes.find(node => hasType(node, 'SoftwareApplication') || hasType(node, 'WebApplication'));
+    if (application) {
+      hasApplication = true;
+      if (!application.name) issues.push({ severity: 'warning', rule: 'jsonld/name', message: 'The SoftwareApplication JSON-LD has no name.', line: block.line });
+    }
+  }
+  if (!hasApplication && !issues.some(issue => issue.rule === 'jsonld/invalid-json')) {
+    issues.push({ severity: 'warning', rule: 'jsonld/type', message: 'The JSON-LD does not describe a SoftwareApplication.' });
+  }
+  return issues;
+}
+
+/**
+ * Static quality and safety analysis of a generated snippet, run before it can be inserted.
+ * Errors mean the tool is broken or unsafe to publish; warnings point at things the prompt asked for but didn't get.
+ * @param normalized The snippet as it will be saved, if that differs; its code is checked in place of the original's.
+ */
+export function checkSnippet(snippet: string, normalized: string = snippet): SnippetIssue[] {
+  const html = snippet.trim();
+  if (!html) {
+    return [{ severity: 'error', rule: 'html/empty', message: 'The snippet is empty.' }];
+  }
+
+  const { tags: rawTags, issues } = parseSnippet(html);
+  // A document that never closes was usually cut off by the model's output limit.
+  if (rawTags.some(tag => tag.name === 'html') && !/<\/html>\s*$/i.test(html)) {
+    issues.unshift({ severity: 'error', rule: 'html/truncated', message: 'The snippet looks truncated: the document is never closed.' });
+  }
+
+  // Normalizing repairs the markup, so only the code checks run on it; markup problems come from the model's version.
+  const tags = normalized === snippet ? rawTags : parseSnippet(normalized.trim()).tags;
+  for (const script of tags.filter(isExecutableScript)) {
+    issues.push(...checkScript(script.content, script.line));
+  }
+  const inlineHandlers = tags.flatMap(tag => Object.entries(tag.attrs).filter(([name]) => name.startsWith('on')).map(([, code]) => ({ code, line: tag.line })));
+  for (const handler of inlineHandlers) {
+    issues.push(...checkScript(handler.code, handler.line));
+  }
+
+  const styles = tags.filter(tag => tag.name === 'style').map(tag => tag.content).join('\n');
+  issues.push(...checkExternalResources(tags, styles));
+  issues.push(...checkJsonLd(tags));
+
+  if (!tags.some(tag => ['input', 'select', 'textarea', 'button'].includes(tag.name))) {
+    issues.push({ severity: 'warning', rule: 'tool/no-controls', message: 'No form controls found, so the tool may not be interactive.' });
+  }
+  if (!tags.some(isExecutableScript)) {
+    issues.push({ severity: 'warning', rule: 'tool/no-script', message: 'No script found.' });
+  }
+  if (!tags.some(tag => tag.name === 'output')) {
+    issues.push({ severity: 'warning', rule: 'tool/no-output', message: 'No <output> element for the results, which the prompt asks for.' });
+  }
+  // Errors first, then in the order they appear in the code.
+  return issues.sort((a, b) => (a.severity === b.severity ? (a.line ?? 0) - (b.line ?? 0) : a.severity === 'error' ? -1 : 1));
+}
+
+export const hasBlockingIssues = (issues: SnippetIssue[]): boolean => issues.some(issue => issue.severity === 'error');
+
+// One line per issue, as the model is shown it when asked to fix the snippet.
+export const describeIssue = (issue: SnippetIssue): string =>
+  `[${issue.rule}]${issue.line ? ` line ${issue.line}:` : ''} ${issue.message}`;
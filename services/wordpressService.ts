@@ -1,5 +1,5 @@
-import { WordPressConfig, WordPressPost } from '../types';
-import { SHORTCODE_DETECTION_REGEX } from '../constants';
+import { EmbedMode, WordPressConfig, WordPressPost, ToolVersion, PostQuery, PostTypeInfo, TaxonomyTerm } from '../types';
+import { SHORTCODE_DETECTION_REGEX, TOOL_BLOCK_DETECTION_REGEX, CONNECTOR_VERSION, MAX_TOOL_VERSIONS, DEFAULT_POST_QUERY } from '../constants';
 
 const POSTS_PER_PAGE = 20;
 
@@ -27,6 +27,23 @@ function getAuthHeader(config: WordPressConfig): string {
     return `Basic ${btoa(`${config.username}:${config.appPassword}`)}`;
 }
 
+// Finds the tool placed in a post, either as a shortcode or as a contentforge/tool block.
+function detectToolId(content: string): number | undefined {
+    const match = content.match(SHORTCODE_DETECTION_REGEX) || content.match(TOOL_BLOCK_DETECTION_REGEX);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Compares dotted version strings numerically, e.g. '3.10' > '3.2'.
+function compareVersions(a: string, b: string): number {
+    const pa = a.split('.').map(Number);
+    const pb = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+        const diff = (pa[i] || 0) - (pb[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
 export async function checkSetup(config: WordPressConfig): Promise<boolean> {
     const url = `${config.url.endsWith('/') ? config.url : `${config.url}/`}wp-json/wp/v2/types/cf_tool`;
     try {
@@ -38,7 +55,14 @@ export async function checkSetup(config: WordPressConfig): Promise<boolean> {
         if (response.status === 404) return false;
         if (response.status === 401) throw new Error('Authentication failed. Check username/app password.');
         if (!response.ok) throw new Error(`Setup check failed: ${response.status}`);
-        return true;
+
+        // Connectors before v3.2 have no status route; treat them like a missing install so the update screen shows.
+        const statusResponse = await fetchWithTimeout(`${config.url.endsWith('/') ? config.url : `${config.url}/`}wp-json/contentforge/v1/status`, {
+            headers: { 'Authorization': getAuthHeader(config) },
+        });
+        if (!statusResponse.ok) return false;
+        const { version } = await statusResponse.json();
+        return compareVersions(String(version ?? '0'), CONNECTOR_VERSION) >= 0;
     } catch (error: any) {
         console.error("Setup check failed:", error);
         if (error.name === 'AbortError') throw new Error('CONNECTION_FAILED: Request timed out. Server too slow.');
@@ -48,8 +72,62 @@ export async function checkSetup(config: WordPressConfig): Promise<boolean> {
 }
 
 
-export async function fetchPosts(config: WordPressConfig, page: number = 1): Promise<{ posts: WordPressPost[], totalPages: number }> {
-    const url = getApiUrl(config, `posts?_fields=id,title,content,link,_links&per_page=${POSTS_PER_PAGE}&page=${page}&status=publish&_embed=wp:featuredmedia`);
+// Types with an editor that are never tool candidates.
+const EXCLUDED_POST_TYPES = ['attachment', 'cf_tool', 'wp_block', 'wp_template', 'wp_template_part', 'wp_navigation', 'wp_global_styles', 'wp_font_family', 'wp_font_face'];
+
+/**
+ * Lists the site's content types that can be browsed and edited through /wp/v2, posts and pages first.
+ */
+export async function fetchPostTypes(config: WordPressConfig): Promise<PostTypeInfo[]> {
+    const response = await fetchWithTimeout(getApiUrl(config, 'types?context=edit'), { headers: { 'Authorization': getAuthHeader(config) } });
+    if (!response.ok) throw new Error(`Failed to fetch post types. Status: ${response.status}`);
+
+    const typesData: Record<string, any> = await response.json();
+    const order = (slug: string) => (slug === 'post' ? 0 : slug === 'page' ? 1 : 2);
+    return Object.values(typesData)
+        .filter(type => type.rest_base && (type.rest_namespace ?? 'wp/v2') === 'wp/v2' && type.viewable !== false && !EXCLUDED_POST_TYPES.includes(type.slug))
+        .map(type => ({ slug: type.slug, name: type.name, restBase: type.rest_base, taxonomies: type.taxonomies ?? [] }))
+        .sort((a, b) => order(a.slug) - order(b.slug));
+}
+
+/**
+ * Lists the most used terms of a taxonomy, for the dashboard's filter chips.
+ * @param restBase 'categories' or 'tags'
+ */
+export async function fetchTerms(config: WordPressConfig, restBase: 'categories' | 'tags'): Promise<TaxonomyTerm[]> {
+    const url = getApiUrl(config, `${restBase}?_fields=id,name,count&per_page=100&orderby=count&order=desc&hide_empty=true`);
+    const response = await fetchWithTimeout(url, { headers: { 'Authorization': getAuthHeader(config) } });
+    if (!response.ok) throw new Error(`Failed to fetch ${restBase}. Status: ${response.status}`);
+
+    const termsData: any[] = await response.json();
+    return termsData.map(term => ({ id: term.id, name: term.name, count: term.count }));
+}
+
+// Builds the collection query string. Search, taxonomy and date filters are applied by WordPress, across every page.
+function buildPostsQuery(query: PostQuery, page: number): string {
+    // WordPress rejects relevance ordering without a search term.
+    const orderby = query.orderby === 'relevance' && !query.search ? 'date' : query.orderby;
+    const params = new URLSearchParams({
+        _fields: 'id,type,status,title,content,link,_links',
+        per_page: String(POSTS_PER_PAGE),
+        page: String(page),
+        status: query.status,
+        context: 'edit',
+        _embed: 'wp:featuredmedia',
+        orderby,
+        order: orderby === 'title' ? 'asc' : 'desc',
+    });
+    if (query.search) params.set('search', query.search);
+    if (query.categories.length > 0) params.set('categories', query.categories.join(','));
+    if (query.tags.length > 0) params.set('tags', query.tags.join(','));
+    if (query.after) params.set('after', `${query.after}T00:00:00`);
+    if (query.before) params.set('before', `${query.before}T23:59:59`);
+    return params.toString();
+}
+
+// `context=edit` adds `content.raw`, the block markup the app edits so saving a post keeps its blocks intact.
+export async function fetchPosts(config: WordPressConfig, page: number = 1, query: PostQuery = DEFAULT_POST_QUERY): Promise<{ posts: WordPressPost[], totalPages: number, totalPosts: number }> {
+    const url = getApiUrl(config, `${query.restBase}?${buildPostsQuery(query, page)}`);
     try {
         const response = await fetchWithTimeout(url, { headers: { 'Authorization': getAuthHeader(config) } });
 
@@ -59,19 +137,23 @@ export async function fetchPosts(config: WordPressConfig, page: number = 1): Pro
         }
 
         const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10);
+        const totalPosts = parseInt(response.headers.get('X-WP-Total') || '0', 10);
         const postsData: any[] = await response.json();
         
         const posts: WordPressPost[] = postsData.map(post => {
             const featuredMedia = post._embedded?.['wp:featuredmedia'];
             const featuredImageUrl = featuredMedia?.[0]?.source_url || null;
-            const match = post.content.rendered.match(SHORTCODE_DETECTION_REGEX);
-            const hasOptimizerSnippet = !!match;
-            const toolId = match ? parseInt(match[1], 10) : undefined;
+            const content = { rendered: post.content.rendered, raw: post.content.raw };
+            const toolId = detectToolId(content.raw ?? content.rendered);
+            const hasOptimizerSnippet = toolId !== undefined;
 
             return {
                 id: post.id,
-                title: post.title,
-                content: post.content,
+                type: post.type,
+                restBase: query.restBase,
+                status: post.status,
+                title: { rendered: post.title.rendered },
+                content,
                 link: post.link,
                 featuredImageUrl: featuredImageUrl,
                 hasOptimizerSnippet,
@@ -79,7 +161,7 @@ export async function fetchPosts(config: WordPressConfig, page: number = 1): Pro
             };
         });
 
-        return { posts, totalPages };
+        return { posts, totalPages, totalPosts };
     } catch (error: any) {
         if (error.name === 'AbortError') throw new Error('CONNECTION_FAILED: Timeout.');
         if (error instanceof TypeError) throw new Error('CONNECTION_FAILED: Network Error.');
@@ -87,8 +169,8 @@ export async function fetchPosts(config: WordPressConfig, page: number = 1): Pro
     }
 }
 
-export async function updatePost(config: WordPressConfig, postId: number, content: string): Promise<WordPressPost> {
-    const url = getApiUrl(config, `posts/${postId}`);
+export async function updatePost(config: WordPressConfig, restBase: string, postId: number, content: string): Promise<WordPressPost> {
+    const url = getApiUrl(config, `${restBase}/${postId}`);
     try {
         const response = await fetchWithTimeout(url, {
             method: 'POST',
@@ -99,14 +181,18 @@ export async function updatePost(config: WordPressConfig, postId: number, conten
         if (!response.ok) throw new Error(`Failed to update post. Status: ${response.status}`);
         
         const updatedPostData: any = await response.json();
-        const match = updatedPostData.content.rendered.match(SHORTCODE_DETECTION_REGEX);
-        const hasOptimizerSnippet = !!match;
-        const toolId = match ? parseInt(match[1], 10) : undefined;
+        // Updates respond in the edit context, so the saved block markup comes back as `content.raw`.
+        const savedContent = { rendered: updatedPostData.content.rendered, raw: updatedPostData.content.raw };
+        const toolId = detectToolId(savedContent.raw ?? savedContent.rendered);
+        const hasOptimizerSnippet = toolId !== undefined;
 
         return {
             id: updatedPostData.id,
-            title: updatedPostData.title,
-            content: updatedPostData.content,
+            type: updatedPostData.type,
+            restBase,
+            status: updatedPostData.status,
+            title: { rendered: updatedPostData.title.rendered },
+            content: savedContent,
             link: updatedPostData.link,
             featuredImageUrl: null,
             hasOptimizerSnippet,
@@ -118,7 +204,22 @@ export async function updatePost(config: WordPressConfig, postId: number, conten
 }
 
 
-export async function createCfTool(config: WordPressConfig, title: string, content: string): Promise<{ id: number }> {
+// The versions meta is a JSON string; anything unreadable is treated as an empty history.
+function parseToolVersions(raw: unknown): ToolVersion[] {
+    if (typeof raw !== 'string' || !raw) return [];
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter(v => typeof v?.snippet === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Saves a new tool. `embedMode` tells the connector how to place it in posts; without it the tool renders inline.
+ */
+export async function createCfTool(config: WordPressConfig, title: string, content: string, version?: Omit<ToolVersion, 'snippet' | 'savedAt'>, embedMode?: EmbedMode): Promise<{ id: number }> {
+  const firstVersion: ToolVersion = { snippet: content, savedAt: Date.now(), provider: null, model: null, note: 'Created', ...version };
   const url = getApiUrl(config, 'cf_tool');
   try {
     const response = await fetchWithTimeout(url, {
@@ -128,7 +229,11 @@ export async function createCfTool(config: WordPressConfig, title: string, conte
         title: title,
         content: '<!-- AI Tool HTML is stored in a custom meta field for security. -->',
         status: 'publish',
-        meta: { _cf_tool_html_snippet: content }
+        meta: {
+          _cf_tool_html_snippet: content,
+          _cf_tool_versions: JSON.stringify([firstVersion]),
+          ...(embedMode ? { _cf_tool_embed_mode: embedMode } : {}),
+        }
       }),
     });
 
@@ -157,7 +262,7 @@ export async function createCfTool(config: WordPressConfig, title: string, conte
         throw new Error(
             'CONNECTOR_OUTDATED: The "AI Connector" on your WordPress site is blocking the code. ' +
             'It failed to save the HTML snippet. ' +
-            'Please go to the main dashboard, disconnect, and update your PHP Snippet to v3.1 as shown in the instructions.'
+            `Please go to the main dashboard, disconnect, and update your PHP Snippet to v${CONNECTOR_VERSION} as shown in the instructions.`
         );
     }
 
@@ -182,7 +287,7 @@ export async function deleteCfTool(config: WordPressConfig, toolId: number): Pro
   }
 }
 
-export async function fetchCfTool(config: WordPressConfig, toolId: number): Promise<{ id: number; title: { rendered: string }; content: { rendered: string } }> {
+export async function fetchCfTool(config: WordPressConfig, toolId: number): Promise<{ id: number; title: { rendered: string }; content: { rendered: string }; versions: ToolVersion[] }> {
     const url = getApiUrl(config, `cf_tool/${toolId}?_fields=id,title,content,meta`);
     try {
         const response = await fetchWithTimeout(url, { headers: { 'Authorization': getAuthHeader(config) } });
@@ -192,14 +297,15 @@ export async function fetchCfTool(config: WordPressConfig, toolId: number): Prom
         return {
             id: toolData.id,
             title: toolData.title,
-            content: { rendered: snippet }
+            content: { rendered: snippet },
+            versions: parseToolVersions(toolData.meta?._cf_tool_versions),
         };
     } catch (error) {
         throw error;
     }
 }
 
-export async function updateCfTool(config: WordPressConfig, toolId: number, title: string, content: string): Promise<{ id: number }> {
+export async function updateCfTool(config: WordPressConfig, toolId: number, title: string, content: string, versions?: ToolVersion[]): Promise<{ id: number }> {
     const url = getApiUrl(config, `cf_tool/${toolId}`);
     try {
         const response = await fetchWithTimeout(url, {
@@ -207,7 +313,10 @@ export async function updateCfTool(config: WordPressConfig, toolId: number, titl
             headers: { 'Content-Type': 'application/json', 'Authorization': getAuthHeader(config) },
             body: JSON.stringify({ 
                 title, 
-                meta: { _cf_tool_html_snippet: content }
+                meta: {
+                    _cf_tool_html_snippet: content,
+                    ...(versions ? { _cf_tool_versions: JSON.stringify(versions) } : {}),
+                }
             }),
         });
         if (!response.ok) throw new Error(`Failed to update tool.`);
@@ -215,4 +324,31 @@ export async function updateCfTool(config: WordPressConfig, toolId: number, titl
     } catch (error) {
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * A tool's version history, oldest first.
+ * Tools created before history existed get their current snippet as a single undated entry, so it can be shown and restored.
+ */
+export function getToolHistory(tool: { content: { rendered: string }; versions: ToolVersion[] }): ToolVersion[] {
+    if (tool.versions.length > 0 || !tool.content.rendered) return tool.versions;
+    // When it was saved is unknown; 0 is shown as "Date unknown".
+    return [{ snippet: tool.content.rendered, savedAt: 0, provider: null, model: null, note: 'Before version history' }];
+}
+
+/**
+ * Replaces a tool's snippet and records it in the tool's version history.
+ * Tools created before history existed get their current snippet recorded first, so it can be restored.
+ * @returns The updated history, oldest first.
+ */
+export async function saveCfToolVersion(
+    config: WordPressConfig,
+    toolId: number,
+    snippet: string,
+    version: Omit<ToolVersion, 'snippet' | 'savedAt'>,
+): Promise<ToolVersion[]> {
+    const tool = await fetchCfTool(config, toolId);
+    const versions = [...getToolHistory(tool), { snippet, savedAt: Date.now(), ...version }].slice(-MAX_TOOL_VERSIONS);
+    await updateCfTool(config, toolId, tool.title.rendered, snippet, versions);
+    return versions;
+}
@@ -5,31 +5,47 @@ export enum AiProvider {
   OpenAI = 'openai',
   Anthropic = 'anthropic',
   OpenRouter = 'openrouter',
+  Custom = 'custom',
+  Mock = 'mock',
 }
 
-export type ApiValidationStatus = 'idle' | 'validating' | 'valid' | 'invalid';
+// The AI jobs a user can assign a different model to.
+export type AiTask = 'scoring' | 'ideation' | 'code';
+
+export type TaskModels = Record<AiTask, string>;
 
-export interface ApiKeys {
-  [AiProvider.Gemini]: string;
-  [AiProvider.OpenAI]: string;
-  [AiProvider.Anthropic]: string;
-  [AiProvider.OpenRouter]: string;
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
-export interface ApiValidationStatuses {
-  [AiProvider.Gemini]: ApiValidationStatus;
-  [AiProvider.OpenAI]: ApiValidationStatus;
-  [AiProvider.Anthropic]: ApiValidationStatus;
-  [AiProvider.OpenRouter]: ApiValidationStatus;
+export type AiOperation = 'scoring' | 'ideation' | 'snippet' | 'refinement' | 'refresh' | 'autofix';
+
+/**
+ * One billed AI call, as reported by the provider.
+ */
+export interface UsageRecord extends TokenUsage {
+  provider: AiProvider;
+  model: string;
+  operation: AiOperation;
+  cost: number | null; // Estimated USD; null when the model has no known price.
+  postIds: number[]; // Posts the call was made for; a scoring batch covers several.
 }
 
-export interface ApiValidationErrorMessages {
-  [AiProvider.Gemini]: string | null;
-  [AiProvider.OpenAI]: string | null;
-  [AiProvider.Anthropic]: string | null;
-  [AiProvider.OpenRouter]: string | null;
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number;
+  hasUnpricedCalls: boolean;
 }
 
+export type ApiValidationStatus = 'idle' | 'validating' | 'valid' | 'invalid';
+
+// Per-provider records are keyed by every registered provider (see services/providers/registry.ts).
+export type ApiKeys = Record<AiProvider, string>;
+
+export type ApiValidationStatuses = Record<AiProvider, ApiValidationStatus>;
+
+export type ApiValidationErrorMessages = Record<AiProvider, string | null>;
 
 export interface WordPressConfig {
   url: string;
@@ -37,13 +53,48 @@ export interface WordPressConfig {
   appPassword: string;
 }
 
+// A content type the post browser can list, discovered from /wp/v2/types.
+export interface PostTypeInfo {
+  slug: string; // e.g. 'post', 'page', 'product'
+  name: string; // Plural label, e.g. 'Products'
+  restBase: string; // Collection under /wp/v2/, e.g. 'pages'
+  taxonomies: string[]; // e.g. ['category', 'post_tag']
+}
+
+// A category or tag offered as a filter chip.
+export interface TaxonomyTerm {
+  id: number;
+  name: string;
+  count: number; // Number of items using the term
+}
+
+export type PostOrderBy = 'date' | 'modified' | 'title' | 'relevance';
+
+export type PostStatusFilter = 'publish' | 'draft' | 'pending' | 'private' | 'any';
+
+// Which items the post browser fetches from WordPress. Filtering and ordering happen server-side.
+export interface PostQuery {
+  restBase: string;
+  status: PostStatusFilter;
+  search: string;
+  categories: number[]; // Term IDs; only applied to types with the 'category' taxonomy
+  tags: number[];
+  after: string; // Inclusive date range as YYYY-MM-DD, '' for open-ended
+  before: string;
+  orderby: PostOrderBy; // 'relevance' needs a search term
+}
+
 export interface WordPressPost {
   id: number;
+  type: string; // Post type slug
+  restBase: string; // REST collection the item is read and updated through
+  status: string; // e.g. 'publish', 'draft'
   title: {
     rendered: string;
   };
   content: {
     rendered: string;
+    raw?: string; // Block markup as saved in the editor; only returned with `context=edit`
   };
   link: string;
   featuredImageUrl: string | null;
@@ -51,15 +102,168 @@ export interface WordPressPost {
   toolId?: number; // The ID of the cf_tool custom post
   opportunityScore?: number;
   opportunityRationale?: string;
+  opportunitySignals?: string[]; // Content signals behind the score, e.g. 'pricing table'
   toolCreationDate?: number; // Stored as a Unix timestamp
 }
 
+// One turn of the conversation used to refine a generated tool.
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface ToolIdea {
   title: string;
   description: string;
   icon: string; // e.g., "calculator", "chart", "list"
 }
 
+// How the connector places a tool in a post: as-is, in a Shadow DOM host, or in a sandboxed iframe.
+export type EmbedMode = 'inline' | 'shadow' | 'iframe';
+
+/**
+ * One saved snippet of a cf_tool. The connector keeps these as JSON in the `_cf_tool_versions` meta
+ * so a bad refresh can be rolled back.
+ */
+export interface ToolVersion {
+  snippet: string;
+  savedAt: number; // Unix timestamp in ms; 0 when unknown (snippets saved before version history)
+  provider: AiProvider | null; // null when not produced by AI (e.g. pre-history snippets)
+  model: string | null;
+  note: string; // e.g. 'Created', 'AI refresh', 'Restored v2'
+}
+
+// A problem found in a generated snippet by the quality checks (see snippetQualityService.ts).
+export interface SnippetIssue {
+  severity: 'error' | 'warning';
+  rule: string; // e.g. 'html/unclosed-tag', 'js/eval'
+  message: string;
+  line?: number; // 1-based line in the snippet, when the issue has one place
+}
+
+// One <output> element after the smoke test filled in the tool's inputs.
+export interface SmokeTestOutput {
+  label: string; // The element's id or name
+  value: string;
+  ok: boolean; // Non-empty and free of NaN, undefined and the like
+}
+
+/**
+ * What happened when a snippet was loaded and exercised in a sandboxed page (see smokeTestService.ts).
+ */
+export interface SmokeTestReport {
+  passed: boolean;
+  errors: string[]; // Console errors, uncaught exceptions and unhandled rejections
+  inputsFilled: number;
+  eventsFired: number;
+  outputs: SmokeTestOutput[];
+  durationMs: number;
+}
+
+export type AutoFixAttemptStatus = 'generating' | 'checking' | 'passed' | 'failed';
+
+/**
+ * One pass of the auto-fix loop: the first generation, or a patch of the version before it.
+ */
+export interface AutoFixAttempt {
+  attempt: number; // 0 is the original generation; fixes count up from 1
+  status: AutoFixAttemptStatus;
+  problems: string[]; // What the checks found; sent to the model on the next attempt
+}
+
+export type BatchItemStatus =
+  | 'queued'
+  | 'ideating'
+  | 'choosing' // Ideas are ready and waiting for someone to pick one
+  | 'generating'
+  | 'testing' // Snippet is being smoke tested in a sandboxed page
+  | 'review' // Snippet is ready; nothing is inserted until it is approved
+  | 'inserting'
+  | 'approved'
+  | 'rejected'
+  | 'failed';
+
+// One post in a batch generation job.
+export interface BatchItem {
+  post: WordPressPost;
+  status: BatchItemStatus;
+  ideas: ToolIdea[];
+  idea: ToolIdea | null; // The idea the snippet is built from
+  snippet: string;
+  issues: SnippetIssue[];
+  smokeReport: SmokeTestReport | null; // null until the finished snippet has been smoke tested
+  fixAttempts: AutoFixAttempt[]; // Empty unless the job auto-fixes failing snippets
+  error: string | null;
+}
+
+/**
+ * Tools generated for many posts in the background, then approved one by one from the review queue.
+ */
+export interface BatchJob {
+  items: BatchItem[];
+  autoPickIdea: boolean; // false pauses each post at 'choosing' until an idea is picked
+  autoFixAttempts: number; // Fixes to try on a snippet that fails its checks; 0 turns auto-fix off
+}
+
+/**
+ * A refreshed snippet waiting for review. Nothing is written to WordPress until it is accepted.
+ */
+export interface PendingRefresh {
+  postId: number;
+  toolId: number;
+  oldSnippet: string;
+  newSnippet: string;
+  provider: AiProvider;
+  model: string;
+}
+
+// One weighted criterion of a scoring profile. Weights are relative; the prompt states them as shares of 100.
+export interface ScoringCriterion {
+  name: string; // e.g. 'Structured data'
+  weight: number;
+  description: string;
+}
+
+// A post title with the score it should get, given to the model as a reference point.
+export interface ScoringExample {
+  title: string;
+  score: number;
+}
+
+/**
+ * The rubric posts are scored against, e.g. tuned for a finance or recipe site.
+ */
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  criteria: ScoringCriterion[];
+  examples: ScoringExample[];
+  targetToolTypes: string[]; // e.g. ['calculator', 'comparison chart']
+}
+
+// A site's scoring profiles, saved per site URL.
+export interface SiteScoringProfiles {
+  profiles: ScoringProfile[];
+  activeProfileId: string;
+}
+
+/**
+ * A "Scan entire site" run, saved to localStorage after every page so it can resume after a reload.
+ */
+export interface SiteScanCheckpoint {
+  siteUrl: string;
+  query: PostQuery; // The post browser query being scanned
+  totalPages: number; // 0 until the first page reports X-WP-TotalPages
+  totalPosts: number;
+  completedPages: number[]; // Pages fetched and scored, in completion order
+}
+
+export interface SiteScanState extends SiteScanCheckpoint {
+  isRunning: boolean; // false while paused
+  runStartedAt: number | null; // When the current run started, for the time estimate
+  pagesAtRunStart: number; // Pages already done when the current run started
+}
+
 export type Theme = 'light' | 'dark';
 
 export type FrameStatus = 'initializing' | 'ready' | 'failed';
@@ -69,26 +273,37 @@ export interface AppState {
   error: string | null;
   deletingPostId: number | null;
   refreshingPostId: number | null; // For tool refresh
+  pendingRefresh: PendingRefresh | null; // A finished refresh awaiting Accept or Discard
   theme: Theme;
   frameStatus: FrameStatus;
   isScoring: boolean;
   scoringPostIds: number[]; // SOTA: Tracks individual posts being scored for granular UI feedback.
+  scoringErrors: Record<number, string>; // Posts whose scoring batch failed after every retry, with the reason.
   isFetchingMorePosts: boolean; // For pagination
+  siteScan: SiteScanState | null; // A running or paused full-site scan
+  scoringProfiles: SiteScoringProfiles; // The connected site's rubrics; changing the active one invalidates scores
+  batchJob: BatchJob | null; // Batch tool generation and its review queue
   
   // AI Provider State
   apiKeys: ApiKeys;
   apiValidationStatuses: ApiValidationStatuses;
   apiValidationErrorMessages: ApiValidationErrorMessages;
   selectedProvider: AiProvider;
-  openRouterModel: string;
+  providerModels: Record<AiProvider, TaskModels>; // Model per provider and task, persisted across sessions.
+  providerBaseUrls: Record<AiProvider, string>; // Only used by self-hosted endpoints.
+  sessionUsage: UsageTotals; // Token usage and estimated cost since the app was opened.
+  postCosts: Record<number, number>; // Estimated USD spent on each post this session.
 
   // WordPress State
   wpConfig: WordPressConfig | null;
+  postTypes: PostTypeInfo[];
+  postQuery: PostQuery;
+  categories: TaxonomyTerm[];
+  tags: TaxonomyTerm[];
   posts: WordPressPost[];
   filteredPosts: WordPressPost[];
   postsPage: number; // For pagination
   hasMorePosts: boolean; // For pagination
-  postSearchQuery: string;
   postSortOrder: 'opportunity' | 'date';
   setupRequired: boolean; // Flag to indicate if the PHP snippet setup is needed
 }
@@ -12,8 +12,5 @@ export default defineConfig({
     alias: {
       '@': './'
     }
-  },
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || '')
   }
 });
\ No newline at end of file